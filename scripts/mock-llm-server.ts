@@ -0,0 +1,107 @@
+/**
+ * Local stand-in for an OpenAI-compatible chat-completions server.
+ *
+ * Answers every request with the rule parser's output for the last user message,
+ * formatted the way the real model is prompted to answer (a JSON array).
+ *
+ *   npm run mock-llm                      # http://localhost:8787/v1
+ *   PORT=9000 npm run mock-llm
+ *
+ * Point the app at it with VITE_PARSER_BACKEND=openai-compatible and
+ * VITE_LLM_BASE_URL=http://localhost:8787/v1.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { parseCommandWithRules } from "../src/lib/ruleParser";
+
+const PORT = Number(process.env.PORT) || 8787;
+const MODEL = "mock-rules";
+
+// content may also be an array of parts in the OpenAI API; only plain strings are understood here
+interface ChatMessage {
+  role: string;
+  content: unknown;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "*",
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.method === "GET" && req.url === "/v1/models") {
+    sendJson(res, 200, { object: "list", data: [{ id: MODEL, object: "model", owned_by: "local" }] });
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/v1/chat/completions") {
+    let messages: unknown;
+    try {
+      messages = JSON.parse(await readBody(req)).messages ?? [];
+    } catch {
+      sendJson(res, 400, { error: { message: "Invalid JSON body" } });
+      return;
+    }
+    if (!Array.isArray(messages)) {
+      sendJson(res, 400, { error: { message: "messages must be an array" } });
+      return;
+    }
+
+    const lastUser = [...(messages as ChatMessage[])].reverse().find((m) => m?.role === "user");
+    const content = lastUser?.content ?? "";
+    if (typeof content !== "string") {
+      sendJson(res, 400, { error: { message: "The last user message content must be a string" } });
+      return;
+    }
+    const intents = parseCommandWithRules(content);
+    console.log(`${content} -> ${intents.map((i) => i.type).join(", ")}`);
+
+    sendJson(res, 200, {
+      id: `chatcmpl-mock-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: MODEL,
+      choices: [{
+        index: 0,
+        message: { role: "assistant", content: JSON.stringify(intents) },
+        finish_reason: "stop",
+      }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: `No route for ${req.method} ${req.url}` } });
+}
+
+// A failing request answers 500 instead of taking the server down
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error: unknown) => {
+    console.error(`${req.method} ${req.url} failed:`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, 500, { error: { message: error instanceof Error ? error.message : String(error) } });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM server listening on http://localhost:${PORT}/v1`);
+});
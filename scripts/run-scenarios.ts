@@ -0,0 +1,38 @@
+/**
+ * Runs every scenario in src/scenarios headlessly and prints pass/fail.
+ *
+ *   npm test                 # all scenarios
+ *   npm test -- drop         # only scenarios whose name contains "drop"
+ *
+ * Commands are parsed by the backend from VITE_PARSER_BACKEND (default: rules),
+ * e.g. from the recorded fixtures (unrecorded commands fall back to the rules):
+ *   VITE_PARSER_BACKEND=replay npm test
+ * or against the local mock server:
+ *   VITE_PARSER_BACKEND=openai-compatible VITE_LLM_BASE_URL=http://localhost:8787/v1 npm test
+ */
+import { ALL_SCENARIOS } from "../src/scenarios";
+import { runScenarios } from "../src/lib/scenarioRunner";
+import { createParserBackend, parserConfigFromEnv } from "../src/lib/parserBackends";
+
+const filter = process.argv[2]?.toLowerCase();
+const scenarios = filter
+  ? ALL_SCENARIOS.filter((s) => s.name.toLowerCase().includes(filter))
+  : ALL_SCENARIOS;
+
+const backend = createParserBackend(parserConfigFromEnv(process.env));
+console.log(`Parser backend: ${backend.name}\n`);
+
+const results = await runScenarios(scenarios, {
+  parseCommand: (text, scene) => backend.parse(text, scene),
+});
+
+for (const result of results) {
+  console.log(`${result.passed ? "PASS" : "FAIL"}  ${result.name}`);
+  for (const failure of result.failures) {
+    console.log(`      ${failure}`);
+  }
+}
+
+const failed = results.filter((r) => !r.passed).length;
+console.log(`\n${results.length - failed}/${results.length} scenarios passed`);
+process.exitCode = failed > 0 ? 1 : 0;
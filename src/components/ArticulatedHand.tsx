@@ -0,0 +1,67 @@
+import * as THREE from "three";
+import type { HandJointAngles, Side } from "../lib/types";
+
+interface ArticulatedHandProps {
+  side: Side;
+  angles: HandJointAngles;
+}
+
+// Hand frame: origin at the centre of the palm, +y back up the forearm, palm facing the body (-x on the right hand)
+const PALM = { width: 0.03, height: 0.09, depth: 0.1 };
+const FINGER = { width: 0.018, proximal: 0.04, distal: 0.032 };
+const THUMB = { width: 0.022, proximal: 0.035, distal: 0.03 };
+const FINGER_Z = [-0.033, -0.011, 0.011, 0.033]; // Index (front) to little finger (back)
+const THUMB_TILT = 0.5; // Radians the thumb leans forward from the fingers at rest
+
+const rad = THREE.MathUtils.degToRad;
+
+function Phalanx({ width, length }: { width: number; length: number }) {
+  return (
+    <mesh position={[0, -length / 2, 0]} castShadow>
+      <boxGeometry args={[width, length, width]} />
+      <meshStandardMaterial color="#9ca3af" metalness={0.6} roughness={0.4} />
+    </mesh>
+  );
+}
+
+/**
+ * A palm with four fingers and a thumb, posed from `HandJointAngles`.
+ *
+ * Finger flex curls both knuckles towards the palm, spread fans the fingers
+ * apart about the middle of the hand; the thumb first swings in front of the
+ * palm (opposition), then curls. The left hand is the right one mirrored.
+ */
+export default function ArticulatedHand({ side, angles }: ArticulatedHandProps) {
+  const { thumb, fingers } = angles;
+
+  return (
+    <group scale={[side === "left" ? -1 : 1, 1, 1]}>
+      <mesh castShadow>
+        <boxGeometry args={[PALM.width, PALM.height, PALM.depth]} />
+        <meshStandardMaterial color="#9ca3af" metalness={0.6} roughness={0.4} />
+      </mesh>
+
+      {FINGER_Z.map((z, i) => {
+        // -1 for the index finger … +1 for the little finger
+        const fan = (i - (FINGER_Z.length - 1) / 2) / ((FINGER_Z.length - 1) / 2);
+        return (
+          <group key={z} position={[0, -PALM.height / 2, z]} rotation={[-fan * rad(fingers.spread), 0, 0]}>
+            <group rotation={[0, 0, -rad(fingers.flex)]}>
+              <Phalanx width={FINGER.width} length={FINGER.proximal} />
+              <group position={[0, -FINGER.proximal, 0]} rotation={[0, 0, -rad(fingers.flex)]}>
+                <Phalanx width={FINGER.width} length={FINGER.distal} />
+              </group>
+            </group>
+          </group>
+        );
+      })}
+
+      <group position={[-PALM.width / 2, 0, -PALM.depth / 2]} rotation={[THUMB_TILT, 0, -rad(thumb.opposition)]}>
+        <Phalanx width={THUMB.width} length={THUMB.proximal} />
+        <group position={[0, -THUMB.proximal, 0]} rotation={[0, 0, -rad(thumb.flex)]}>
+          <Phalanx width={THUMB.width} length={THUMB.distal} />
+        </group>
+      </group>
+    </group>
+  );
+}
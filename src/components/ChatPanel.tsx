@@ -1,21 +1,20 @@
 import { useState } from "react";
-import type { Intent } from "../lib/types";
+import type { ChatLogEntry } from "../lib/types";
 
 interface ChatPanelProps {
   onCommand: (text: string) => Promise<void> | void;
-  logs: Intent[];
+  logs: ChatLogEntry[];
 }
 
 export default function ChatPanel({ onCommand, logs }: ChatPanelProps) {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (input.trim() && !isLoading) {
+  const send = async (text: string) => {
+    if (text && !isLoading) {
       setIsLoading(true);
       try {
-        await onCommand(input.trim());
+        await onCommand(text);
         setInput("");
       } finally {
         setIsLoading(false);
@@ -23,6 +22,14 @@ export default function ChatPanel({ onCommand, logs }: ChatPanelProps) {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await send(input.trim());
+  };
+
+  // Quick answers only apply to the latest robot question
+  const lastQuestionIdx = logs.length - 1;
+
   return (
     <div className="flex flex-col h-full bg-white text-gray-900 p-6 gap-6 relative overflow-hidden">
       {/* Subtle grid background */}
@@ -59,7 +66,64 @@ export default function ChatPanel({ onCommand, logs }: ChatPanelProps) {
             </div>
           </div>
         )}
-        {logs.map((log, idx) => (
+        {logs.map((log, idx) => log.kind === "robot" ? (
+          <div
+            key={idx}
+            className="relative bg-blue-50 rounded-lg px-4 py-3 border border-blue-200"
+          >
+            <div className="relative z-10">
+              <div className="flex items-center gap-2 mb-1">
+                <div className="w-2 h-2 rounded-full bg-blue-500" />
+                <span className="text-xs text-blue-700 uppercase tracking-wider font-medium">
+                  robot
+                </span>
+              </div>
+              <div className="text-gray-900 text-sm">{log.text}</div>
+              {log.options && idx === lastQuestionIdx && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {log.options.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => send(option)}
+                      disabled={isLoading}
+                      className="px-3 py-1 text-xs rounded-md border border-blue-300 bg-white hover:bg-blue-100 text-blue-800 disabled:opacity-50"
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : log.kind === "user" ? (
+          <div
+            key={idx}
+            className="relative bg-white rounded-lg px-4 py-3 border border-gray-200 ml-8"
+          >
+            <div className="text-gray-900 text-sm">{log.text}</div>
+          </div>
+        ) : log.kind === "error" ? (
+          <div
+            key={idx}
+            className="relative bg-red-50 rounded-lg px-4 py-3 border border-red-200"
+          >
+            <div className="relative z-10">
+              <div className="flex items-center gap-2 mb-1">
+                <div className="w-2 h-2 rounded-full bg-red-500" />
+                <span className="text-xs text-red-700 uppercase tracking-wider font-medium">
+                  parser error
+                </span>
+              </div>
+              <div className="text-gray-900 text-sm">{log.text}</div>
+              <ul className="mt-1 text-xs text-red-700 space-y-0.5">
+                {log.messages.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
           <div
             key={idx}
             className="group relative bg-gray-50 hover:bg-gray-100 rounded-lg px-4 py-3 border border-gray-200 transition-all duration-200"
@@ -68,13 +132,18 @@ export default function ChatPanel({ onCommand, logs }: ChatPanelProps) {
               <div className="flex items-center gap-2 mb-1">
                 <div className="w-2 h-2 rounded-full bg-green-500" />
                 <span className="text-xs text-gray-600 uppercase tracking-wider font-medium">
-                  {log.type}
-                  {log.side && ` · ${log.side}`}
-                  {log.joint && ` · ${log.joint}`}
-                  {log.angle !== undefined && ` · ${log.angle}°`}
+                  {log.intent.robotId && `${log.intent.robotId} · `}
+                  {log.intent.type}
+                  {log.intent.side && ` · ${log.intent.side}`}
+                  {log.intent.joint && ` · ${log.intent.joint}`}
+                  {log.intent.axis === "roll" && " roll"}
+                  {log.intent.angle !== undefined && ` · ${log.intent.angle}°`}
+                  {log.intent.objectName && ` · ${log.intent.objectName}`}
+                  {log.intent.targetObjectName && ` → ${log.intent.targetObjectName}`}
+                  {log.intent.clipName && ` · ${log.intent.clipName}`}
                 </span>
               </div>
-              <div className="text-gray-900 text-sm">{log.text}</div>
+              <div className="text-gray-900 text-sm">{log.intent.text}</div>
             </div>
           </div>
         ))}
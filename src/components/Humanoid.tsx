@@ -1,16 +1,28 @@
 import { useRef } from "react";
 import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
-import type { Robot, PickableObject } from "../lib/types";
+import type { Robot, PickableObject, Grip } from "../lib/types";
+import { SKELETON } from "../lib/skeleton";
+import { handAngles } from "../lib/grasp";
+import ArticulatedHand from "./ArticulatedHand";
+import { ObjectMesh } from "./PickableObject";
+
+export interface HeldItem {
+  object: PickableObject;
+  grip: Grip;
+}
 
 interface HumanoidProps {
   robot: Robot;
-  heldObject?: PickableObject;
+  held?: HeldItem[];
 }
 
-export default function Humanoid({ robot, heldObject }: HumanoidProps) {
+const handWorld = new THREE.Vector3();
+
+export default function Humanoid({ robot, held = [] }: HumanoidProps) {
   const groupRef = useRef<THREE.Group>(null);
   const torsoRef = useRef<THREE.Group>(null); // New: torso rotation
+  const neckRef = useRef<THREE.Group>(null);
   const leftShoulderRef = useRef<THREE.Group>(null);
   const leftElbowRef = useRef<THREE.Group>(null);
   const rightShoulderRef = useRef<THREE.Group>(null);
@@ -19,24 +31,45 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
   const leftKneeRef = useRef<THREE.Group>(null);
   const rightHipRef = useRef<THREE.Group>(null);
   const rightKneeRef = useRef<THREE.Group>(null);
+  const leftHandRef = useRef<THREE.Group>(null);
+  const rightHandRef = useRef<THREE.Group>(null);
+  const heldRefs = useRef<Record<string, THREE.Group | null>>({});
 
   useFrame(() => {
     // Simple position control without physics
     if (groupRef.current) {
       groupRef.current.position.set(robot.position.x, robot.position.y, robot.position.z);
-      groupRef.current.rotation.y = THREE.MathUtils.degToRad(robot.rotation);
+      groupRef.current.rotation.y = THREE.MathUtils.degToRad(-robot.rotation); // Faces -z at 0 (skeleton.ts)
     }
 
     // Torso rotation (body lean)
     if (torsoRef.current && robot.pose.torso) {
       torsoRef.current.rotation.x = THREE.MathUtils.degToRad(-robot.pose.torso.pitch); // Negative for forward lean
       torsoRef.current.rotation.z = THREE.MathUtils.degToRad(robot.pose.torso.roll); // Left/right tilt
+      torsoRef.current.rotation.y = THREE.MathUtils.degToRad(-(robot.pose.torso.yaw ?? 0)); // Twist, > 0 to the right
     }
 
-    // Arms
+    // Head: turn, then nod
+    if (neckRef.current) {
+      const neck = robot.pose.neck ?? { yaw: 0, pitch: 0 };
+      neckRef.current.rotation.set(THREE.MathUtils.degToRad(-neck.pitch), THREE.MathUtils.degToRad(-neck.yaw), 0, "YXZ");
+    }
+
+    // Wrists turn the hands about their centres (palm forward, then bent towards the palm)
+    for (const [side, hand] of [["left", leftHandRef.current], ["right", rightHandRef.current]] as const) {
+      if (!hand) continue;
+      const wrist = robot.pose[`${side}Arm`].wrist ?? { flex: 0, twist: 0 };
+      const sign = side === "left" ? -1 : 1;
+      hand.rotation.set(0, THREE.MathUtils.degToRad(-sign * wrist.twist), THREE.MathUtils.degToRad(-sign * wrist.flex), "YZX");
+    }
+
+    // Arms (joint signs as in skeleton.ts, so the drawn hands land where the IK puts them)
     if (leftShoulderRef.current) {
       leftShoulderRef.current.rotation.x = THREE.MathUtils.degToRad(
-        -robot.pose.leftArm.shoulder.pitch
+        robot.pose.leftArm.shoulder.pitch
+      );
+      leftShoulderRef.current.rotation.z = THREE.MathUtils.degToRad(
+        -(robot.pose.leftArm.shoulder.roll ?? 0)
       );
     }
     if (leftElbowRef.current) {
@@ -46,7 +79,10 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
     }
     if (rightShoulderRef.current) {
       rightShoulderRef.current.rotation.x = THREE.MathUtils.degToRad(
-        -robot.pose.rightArm.shoulder.pitch
+        robot.pose.rightArm.shoulder.pitch
+      );
+      rightShoulderRef.current.rotation.z = THREE.MathUtils.degToRad(
+        robot.pose.rightArm.shoulder.roll ?? 0
       );
     }
     if (rightElbowRef.current) {
@@ -60,22 +96,49 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
       leftHipRef.current.rotation.x = THREE.MathUtils.degToRad(
         robot.pose.leftLeg.hip.pitch
       );
+      leftHipRef.current.rotation.z = THREE.MathUtils.degToRad(
+        -(robot.pose.leftLeg.hip.roll ?? 0)
+      );
     }
     if (leftKneeRef.current) {
       leftKneeRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.leftLeg.knee.flex
+        -robot.pose.leftLeg.knee.flex
       );
     }
     if (rightHipRef.current) {
       rightHipRef.current.rotation.x = THREE.MathUtils.degToRad(
         robot.pose.rightLeg.hip.pitch
       );
+      rightHipRef.current.rotation.z = THREE.MathUtils.degToRad(
+        robot.pose.rightLeg.hip.roll ?? 0
+      );
     }
     if (rightKneeRef.current) {
       rightKneeRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.rightLeg.knee.flex
+        -robot.pose.rightLeg.knee.flex
       );
     }
+
+    // Held objects follow the hands: one hand carries it just under the palm,
+    // a two-handed grip holds it midway between both palms
+    const body = groupRef.current;
+    if (!body) return;
+    body.updateMatrixWorld();
+    const handPoint = (hand: THREE.Group | null) =>
+      hand ? body.worldToLocal(hand.getWorldPosition(handWorld)).clone() : null;
+    const left = handPoint(leftHandRef.current);
+    const right = handPoint(rightHandRef.current);
+
+    for (const { object, grip } of held) {
+      const heldGroup = heldRefs.current[object.id];
+      if (!heldGroup || !left || !right) continue;
+      if (grip === "both") {
+        heldGroup.position.copy(left).add(right).multiplyScalar(0.5);
+      } else {
+        heldGroup.position.copy(grip === "left" ? left : right);
+        heldGroup.position.y -= object.size / 2;
+      }
+    }
   });
 
   return (
@@ -93,7 +156,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
         </mesh>
 
         {/* Chest panel - darker accent */}
-        <mesh position={[0, 0.1, 0.18]} castShadow>
+        <mesh position={[0, 0.1, -0.18]} castShadow>
           <boxGeometry args={[0.4, 0.6, 0.02]} />
           <meshStandardMaterial
             color="#1f2937"
@@ -102,27 +165,29 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
           />
         </mesh>
 
-        {/* Head - Spherical with visor */}
-        <mesh position={[0, 0.75, 0]} castShadow receiveShadow>
-          <sphereGeometry args={[0.25, 12, 12]} />
-          <meshStandardMaterial
-            color="#f3f4f6"
-            metalness={0.5}
-            roughness={0.4}
-          />
-        </mesh>
+        {/* Head - Spherical with visor, turning on the neck joint */}
+        <group ref={neckRef} position={[0, SKELETON.neck, 0]}>
+          <mesh position={[0, 0.25, 0]} castShadow receiveShadow>
+            <sphereGeometry args={[0.25, 12, 12]} />
+            <meshStandardMaterial
+              color="#f3f4f6"
+              metalness={0.5}
+              roughness={0.4}
+            />
+          </mesh>
 
-        {/* Visor - Dark glass-like surface */}
-        <mesh position={[0, 0.77, 0.22]} rotation={[0.1, 0, 0]} castShadow>
-          <boxGeometry args={[0.35, 0.12, 0.05]} />
-          <meshStandardMaterial
-            color="#111827"
-            metalness={0.9}
-            roughness={0.1}
-            transparent={true}
-            opacity={0.8}
-          />
-        </mesh>
+          {/* Visor - Dark glass-like surface */}
+          <mesh position={[0, SKELETON.eyes, -0.22]} rotation={[-0.1, 0, 0]} castShadow>
+            <boxGeometry args={[0.35, 0.12, 0.05]} />
+            <meshStandardMaterial
+              color="#111827"
+              metalness={0.9}
+              roughness={0.1}
+              transparent={true}
+              opacity={0.8}
+            />
+          </mesh>
+        </group>
 
         {/* Neck joint */}
         <mesh position={[0, 0.5, 0]}>
@@ -135,7 +200,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
         </mesh>
 
         {/* Left Arm - Optimus style with segmented panels */}
-        <group ref={leftShoulderRef} position={[-0.35, 0.35, 0]}>
+        <group ref={leftShoulderRef} position={[-SKELETON.shoulder.x, SKELETON.shoulder.y, 0]}>
         {/* Shoulder joint */}
         <mesh position={[0, 0, 0]}>
           <sphereGeometry args={[0.1, 6, 6]} />
@@ -154,7 +219,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
             roughness={0.4}
           />
         </mesh>
-        <group ref={leftElbowRef} position={[0, -0.5, 0]}>
+        <group ref={leftElbowRef} position={[0, -SKELETON.upperArm, 0]}>
           {/* Elbow joint */}
           <mesh position={[0, 0, 0]}>
             <sphereGeometry args={[0.08, 8, 8]} />
@@ -174,19 +239,14 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
             />
           </mesh>
           {/* Hand */}
-          <mesh position={[0, -0.42, 0]} castShadow>
-            <boxGeometry args={[0.1, 0.12, 0.06]} />
-            <meshStandardMaterial
-              color="#9ca3af"
-              metalness={0.6}
-              roughness={0.4}
-            />
-          </mesh>
+          <group ref={leftHandRef} position={[0, -SKELETON.forearm, 0]}>
+            <ArticulatedHand side="left" angles={handAngles(robot.pose, "left")} />
+          </group>
         </group>
       </group>
 
         {/* Right Arm */}
-        <group ref={rightShoulderRef} position={[0.35, 0.35, 0]}>
+        <group ref={rightShoulderRef} position={[SKELETON.shoulder.x, SKELETON.shoulder.y, 0]}>
           <mesh position={[0, 0, 0]}>
             <sphereGeometry args={[0.1, 8, 8]} />
             <meshStandardMaterial
@@ -203,7 +263,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
               roughness={0.4}
             />
           </mesh>
-          <group ref={rightElbowRef} position={[0, -0.5, 0]}>
+          <group ref={rightElbowRef} position={[0, -SKELETON.upperArm, 0]}>
             <mesh position={[0, 0, 0]}>
               <sphereGeometry args={[0.08, 8, 8]} />
               <meshStandardMaterial
@@ -220,20 +280,15 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
                 roughness={0.4}
               />
             </mesh>
-            <mesh position={[0, -0.42, 0]} castShadow>
-              <boxGeometry args={[0.1, 0.12, 0.06]} />
-              <meshStandardMaterial
-                color="#9ca3af"
-                metalness={0.6}
-                roughness={0.4}
-              />
-            </mesh>
+            <group ref={rightHandRef} position={[0, -SKELETON.forearm, 0]}>
+              <ArticulatedHand side="right" angles={handAngles(robot.pose, "right")} />
+            </group>
           </group>
         </group>
       </group> {/* End torso group */}
 
       {/* Left Leg - Thicker, more robust design */}
-      <group ref={leftHipRef} position={[-0.18, -0.5, 0]}>
+      <group ref={leftHipRef} position={[-SKELETON.hip.x, SKELETON.hip.y, 0]}>
         {/* Hip joint */}
         <mesh position={[0, 0, 0]}>
           <sphereGeometry args={[0.1, 8, 8]} />
@@ -252,7 +307,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
             roughness={0.4}
           />
         </mesh>
-        <group ref={leftKneeRef} position={[0, -0.6, 0]}>
+        <group ref={leftKneeRef} position={[0, -SKELETON.thigh, 0]}>
           {/* Knee joint */}
           <mesh position={[0, 0, 0]}>
             <sphereGeometry args={[0.09, 8, 8]} />
@@ -272,7 +327,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
             />
           </mesh>
           {/* Foot */}
-          <mesh position={[0, -0.5, 0.08]} castShadow receiveShadow>
+          <mesh position={[0, -SKELETON.shin, -0.08]} castShadow receiveShadow>
             <boxGeometry args={[0.15, 0.08, 0.25]} />
             <meshStandardMaterial
               color="#374151"
@@ -284,7 +339,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
       </group>
 
       {/* Right Leg */}
-      <group ref={rightHipRef} position={[0.18, -0.5, 0]}>
+      <group ref={rightHipRef} position={[SKELETON.hip.x, SKELETON.hip.y, 0]}>
         <mesh position={[0, 0, 0]}>
           <sphereGeometry args={[0.1, 8, 8]} />
           <meshStandardMaterial
@@ -301,7 +356,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
             roughness={0.4}
           />
         </mesh>
-        <group ref={rightKneeRef} position={[0, -0.6, 0]}>
+        <group ref={rightKneeRef} position={[0, -SKELETON.thigh, 0]}>
           <mesh position={[0, 0, 0]}>
             <sphereGeometry args={[0.09, 8, 8]} />
             <meshStandardMaterial
@@ -318,7 +373,7 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
               roughness={0.4}
             />
           </mesh>
-          <mesh position={[0, -0.5, 0.08]} castShadow receiveShadow>
+          <mesh position={[0, -SKELETON.shin, -0.08]} castShadow receiveShadow>
             <boxGeometry args={[0.15, 0.08, 0.25]} />
             <meshStandardMaterial
               color="#374151"
@@ -329,29 +384,17 @@ export default function Humanoid({ robot, heldObject }: HumanoidProps) {
         </group>
       </group>
 
-      {/* Held object visualization (attached to right hand) */}
-      {heldObject && (
-        <group position={[0.5, -0.3, 0.5]}>
-          {heldObject.type === "box" && (
-            <mesh>
-              <boxGeometry args={[heldObject.size, heldObject.size, heldObject.size]} />
-              <meshStandardMaterial color={heldObject.color} />
-            </mesh>
-          )}
-          {heldObject.type === "sphere" && (
-            <mesh>
-              <sphereGeometry args={[heldObject.size / 2, 16, 16]} />
-              <meshStandardMaterial color={heldObject.color} />
-            </mesh>
-          )}
-          {heldObject.type === "cylinder" && (
-            <mesh>
-              <cylinderGeometry args={[heldObject.size / 2, heldObject.size / 2, heldObject.size, 16]} />
-              <meshStandardMaterial color={heldObject.color} />
-            </mesh>
-          )}
+      {/* Held objects (placed at the hands every frame) */}
+      {held.map(({ object: heldObject }) => (
+        <group
+          key={heldObject.id}
+          ref={(group) => {
+            heldRefs.current[heldObject.id] = group;
+          }}
+        >
+          <ObjectMesh object={heldObject} />
         </group>
-      )}
+      ))}
     </group>
   );
 }
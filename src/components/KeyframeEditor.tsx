@@ -0,0 +1,301 @@
+import { useEffect, useRef, useState } from "react";
+import type { FullPose, Robot } from "../lib/types";
+import type { World } from "../lib/world";
+import { getActiveRunner } from "../lib/actionExecutor";
+import { ease, evaluateMotion, type EasingName, type Keyframe } from "../lib/motion";
+import { getClip, listClips, poseToKeyframe, registerClip, type MotionClip } from "../lib/motionClips";
+import {
+  POSE_JOINTS,
+  checkPose,
+  describeCollision,
+  jointAngle,
+  setJointAngle,
+  type PoseCheck,
+  type PoseJoint,
+} from "../lib/poseConstraints";
+
+interface KeyframeEditorProps {
+  world: World;
+  robots: Robot[];
+  onClipSaved: (clip: MotionClip) => void;
+}
+
+const EASINGS = Object.keys(ease) as EasingName[];
+const DEFAULT_DURATION = 2000;
+
+// Sliders grouped by body part: "rightArm.shoulder" → [pitch, roll]
+const JOINT_GROUPS = POSE_JOINTS.reduce<Record<string, PoseJoint[]>>((groups, joint) => {
+  const part = joint.path.slice(0, joint.path.lastIndexOf("."));
+  (groups[part] ??= []).push(joint);
+  return groups;
+}, {});
+
+// "rightArm.shoulder" → "right arm shoulder"
+const label = (path: string) => path.replace(/\./g, " ").replace(/([A-Z])/g, " $1").toLowerCase();
+
+// Show a pose on the robot the way the executor would: clamped, and not at all if a limb goes through the body.
+// Hands the frame leaves unset keep their fingers, as in clip playback, so a carried object stays gripped.
+function applyFrame(world: World, robotId: string, pose: FullPose): PoseCheck {
+  const robot = world.getRobot(robotId);
+  const check = checkPose({ ...pose, leftHand: pose.leftHand ?? robot?.pose.leftHand, rightHand: pose.rightHand ?? robot?.pose.rightHand });
+  if (check.collisions.length > 0) return check;
+  getActiveRunner(world, robotId)?.cancel();
+  world.updateRobot(robotId, (r) => ({ ...r, pose: check.pose }));
+  return check;
+}
+
+function describeCheck(check: PoseCheck): string | null {
+  if (check.collisions.length > 0) return `Not possible: the ${describeCollision(check.collisions[0])}`;
+  if (check.clamped.length > 0) {
+    return `Clamped ${check.clamped.map((c) => `${c.joint} ${Math.round(c.requested)}° → ${Math.round(c.applied)}°`).join(", ")}`;
+  }
+  return null;
+}
+
+function sortByTime(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Keyframe pose editor: sliders for every joint, a timeline of keyframes and
+ * a preview on one robot of the scene.
+ *
+ * Editing a joint changes the selected keyframe and shows it on the robot;
+ * scrubbing or playing the timeline shows the interpolated pose. Every frame
+ * goes through checkPose() like the executor's, so a pose that would put a
+ * limb through the body is refused. Saving registers the draft as a motion
+ * clip that commands ("play <name>") and the HUD can play.
+ */
+export default function KeyframeEditor({ world, robots, onClipSaved }: KeyframeEditorProps) {
+  const [robotId, setRobotId] = useState(() => robots[0]?.id ?? "");
+  const [name, setName] = useState("new-clip");
+  const [duration, setDuration] = useState(DEFAULT_DURATION);
+  const [keyframes, setKeyframes] = useState<Keyframe[]>(() => {
+    const robot = world.getRobot(robots[0]?.id ?? "");
+    return robot ? [poseToKeyframe(robot.pose, 1, "easeInOut")] : [];
+  });
+  const [selected, setSelected] = useState(0);
+  const [playhead, setPlayhead] = useState(0); // 0-1 along the clip
+  const [playing, setPlaying] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const playheadRef = useRef(0);
+
+  const frame = keyframes[selected];
+
+  const moveTo = (t: number) => {
+    playheadRef.current = t;
+    setPlayhead(t);
+  };
+
+  const scrubTo = (t: number) => {
+    setPlaying(false);
+    moveTo(t);
+    if (keyframes.length === 0) return;
+    setStatus(describeCheck(applyFrame(world, robotId, evaluateMotion({ keyframes, duration }, t * duration).pose)));
+  };
+
+  // Play from the playhead on the simulation clock (Freeze and speed apply)
+  useEffect(() => {
+    if (!playing || keyframes.length === 0) return;
+    let elapsed = playheadRef.current >= 1 ? 0 : playheadRef.current * duration;
+    return world.clock.onTick((dt) => {
+      elapsed = Math.min(elapsed + dt, duration);
+      playheadRef.current = elapsed / duration;
+      setPlayhead(elapsed / duration);
+      const check = applyFrame(world, robotId, evaluateMotion({ keyframes, duration }, elapsed).pose);
+      if (check.collisions.length > 0) setStatus(describeCheck(check));
+      if (elapsed >= duration) setPlaying(false);
+    });
+  }, [playing, keyframes, duration, world, robotId]);
+
+  const selectKeyframe = (index: number) => {
+    setSelected(index);
+    scrubTo(keyframes[index].time);
+  };
+
+  const changeJoint = (path: string, value: number) => {
+    if (!frame) return;
+    const check = checkPose(setJointAngle(frame.pose, path, value));
+    setStatus(describeCheck(check));
+    if (check.collisions.length > 0) return;
+    setKeyframes(keyframes.map((k, i) => (i === selected ? { ...k, pose: check.pose } : k)));
+    moveTo(frame.time);
+    applyFrame(world, robotId, check.pose);
+  };
+
+  // New keyframe at the playhead, posed like the robot is now
+  const addKeyframe = () => {
+    const robot = world.getRobot(robotId);
+    if (!robot) return;
+    const added = poseToKeyframe(robot.pose, Math.round(playhead * 100) / 100, "easeInOut");
+    const next = sortByTime([...keyframes, added]);
+    setKeyframes(next);
+    setSelected(next.indexOf(added));
+  };
+
+  const captureRobotPose = () => {
+    const robot = world.getRobot(robotId);
+    if (!robot || !frame) return;
+    setKeyframes(keyframes.map((k, i) => (i === selected ? poseToKeyframe(robot.pose, k.time, k.easing) : k)));
+  };
+
+  const deleteKeyframe = () => {
+    if (keyframes.length <= 1) return;
+    setKeyframes(keyframes.filter((_, i) => i !== selected));
+    setSelected(Math.max(0, selected - 1));
+  };
+
+  const changeTime = (time: number) => {
+    if (!frame || Number.isNaN(time)) return;
+    const moved = { ...frame, time: Math.min(Math.max(time, 0), 1) };
+    const next = sortByTime(keyframes.map((k, i) => (i === selected ? moved : k)));
+    setKeyframes(next);
+    setSelected(next.indexOf(moved));
+  };
+
+  const changeEasing = (easing: EasingName) => {
+    setKeyframes(keyframes.map((k, i) => (i === selected ? { ...k, easing } : k)));
+  };
+
+  const loadClip = (clipName: string) => {
+    const clip = getClip(clipName);
+    if (!clip) return;
+    setPlaying(false);
+    setName(clip.name);
+    setDuration(clip.duration);
+    setKeyframes(clip.keyframes.map((k) => poseToKeyframe(k.pose, k.time, k.easing)));
+    setSelected(0);
+    moveTo(0);
+    setStatus(null);
+  };
+
+  const saveClip = () => {
+    if (!name.trim() || keyframes.length === 0) return;
+    const clip: MotionClip = { name: name.trim(), duration, keyframes: sortByTime(keyframes) };
+    registerClip(clip);
+    onClipSaved(clip);
+    setStatus(`Saved "${clip.name}"`);
+  };
+
+  const button = "px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col h-full bg-white text-gray-900 p-4 gap-3 text-xs">
+      <div className="flex items-center justify-between pb-2 border-b border-gray-200">
+        <h3 className="text-base font-semibold tracking-tight">Pose Editor</h3>
+        {robots.length > 1 && (
+          <select value={robotId} onChange={(e) => setRobotId(e.target.value)} className="border border-gray-300 rounded px-1 py-0.5">
+            {robots.map((robot) => <option key={robot.id} value={robot.id}>{robot.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Clip */}
+      <div className="flex gap-2 items-center">
+        <input value={name} onChange={(e) => setName(e.target.value)} className="flex-1 border border-gray-300 rounded px-2 py-1" placeholder="clip name" />
+        <input
+          type="number"
+          min={100}
+          step={100}
+          value={duration}
+          onChange={(e) => setDuration(Math.max(100, Number(e.target.value) || DEFAULT_DURATION))}
+          className="w-20 border border-gray-300 rounded px-2 py-1"
+        />
+        <span className="text-gray-500">ms</span>
+      </div>
+      <div className="flex gap-2">
+        <select value="" onChange={(e) => loadClip(e.target.value)} className="flex-1 border border-gray-300 rounded px-1 py-1">
+          <option value="" disabled>Load clip…</option>
+          {listClips().map((clip) => <option key={clip.name} value={clip.name}>{clip.name}</option>)}
+        </select>
+        <button onClick={saveClip} disabled={!name.trim() || keyframes.length === 0} className={button}>Save clip</button>
+      </div>
+
+      {/* Timeline */}
+      <div>
+        <div className="relative h-6 bg-gray-100 rounded">
+          {keyframes.map((k, i) => (
+            <button
+              key={i}
+              onClick={() => selectKeyframe(i)}
+              title={`${k.time.toFixed(2)} · ${k.easing ?? "easeInOut"}`}
+              className={`absolute top-1 w-3 h-4 -ml-1.5 rounded-sm ${i === selected ? "bg-gray-900" : "bg-gray-400 hover:bg-gray-600"}`}
+              style={{ left: `${k.time * 100}%` }}
+            />
+          ))}
+          <div className="absolute top-0 h-6 w-px bg-red-500 pointer-events-none" style={{ left: `${playhead * 100}%` }} />
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={playhead}
+          onChange={(e) => scrubTo(Number(e.target.value))}
+          className="w-full"
+        />
+        <div className="flex gap-2 items-center">
+          <button onClick={() => setPlaying((on) => !on)} disabled={keyframes.length === 0} className={button}>
+            {playing ? "Stop" : "Play"}
+          </button>
+          <span className="text-gray-500 tabular-nums">{Math.round(playhead * duration)} ms</span>
+          <div className="flex-1" />
+          <button onClick={addKeyframe} className={button}>Add key</button>
+          <button onClick={deleteKeyframe} disabled={keyframes.length <= 1} className={button}>Delete</button>
+        </div>
+      </div>
+
+      {/* Selected keyframe */}
+      {frame && (
+        <div className="flex gap-2 items-center">
+          <span className="text-gray-500">Key {selected + 1}</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={frame.time}
+            onChange={(e) => changeTime(Number(e.target.value))}
+            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+          />
+          <select value={frame.easing ?? "easeInOut"} onChange={(e) => changeEasing(e.target.value as EasingName)} className="flex-1 border border-gray-300 rounded px-1 py-0.5">
+            {EASINGS.map((easing) => <option key={easing} value={easing}>{easing}</option>)}
+          </select>
+          <button onClick={captureRobotPose} className={button} title="Use the robot's current pose">Capture</button>
+        </div>
+      )}
+
+      {status && <div className="text-gray-600 bg-gray-50 border border-gray-200 rounded px-2 py-1">{status}</div>}
+
+      {/* Joints */}
+      {frame && (
+        <div className="flex-1 overflow-auto pr-1 space-y-2">
+          {Object.entries(JOINT_GROUPS).map(([part, joints]) => (
+            <div key={part}>
+              <div className="text-gray-700 font-medium">{label(part)}</div>
+              {joints.map((joint) => {
+                const axis = joint.path.slice(joint.path.lastIndexOf(".") + 1);
+                const value = jointAngle(frame.pose, joint.path);
+                return (
+                  <label key={joint.path} className="flex items-center gap-2">
+                    <span className="w-20 text-gray-500">{axis}</span>
+                    <input
+                      type="range"
+                      min={joint.limits.min}
+                      max={joint.limits.max}
+                      step={1}
+                      value={value}
+                      onChange={(e) => changeJoint(joint.path, Number(e.target.value))}
+                      className="flex-1"
+                    />
+                    <span className="w-10 text-right tabular-nums">{Math.round(value)}°</span>
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,228 +1,217 @@
 import { useState, useEffect } from "react";
 import Scene from "./Scene";
 import ChatPanel from "./ChatPanel";
+import KeyframeEditor from "./KeyframeEditor";
 import { useIntentParser } from "../hooks/useIntentParser";
-import { parseCommandWithGPT } from "../lib/openai";
-import type { Robot, Intent, FullPose, PickableObject, ActionPlan, ActionStep } from "../lib/types";
-import { clamp, JOINT_LIMITS, constrainPose } from "../lib/clamp";
-import { MOTIONS, lerpPose, ease, lerpVec3 } from "../lib/motion";
-import { findObjectByDescription, createPickPlan, createDropPlan } from "../lib/actionPlanner";
-import { executeActionPlan, cleanupAllIntervals } from "../lib/actionExecutor";
-
-const DEFAULT_POSE: FullPose = {
-  leftArm: { shoulder: { pitch: 0 }, elbow: { flex: 0 } },
-  rightArm: { shoulder: { pitch: 0 }, elbow: { flex: 0 } },
-  leftLeg: { hip: { pitch: 0 }, knee: { flex: 0 } },
-  rightLeg: { hip: { pitch: 0 }, knee: { flex: 0 } },
-};
+import { useWorld } from "../hooks/useWorld";
+import { createParserBackend, parserConfigFromEnv } from "../lib/parserBackends";
+import type { Intent, ChatLogEntry } from "../lib/types";
+import type { PlanRunner, PlanRunnerStatus } from "../lib/actionExecutor";
+import { simulationClock } from "../lib/simulationClock";
+import { World } from "../lib/world";
+import { createDefaultRobots, createDefaultObjects } from "../lib/defaultScene";
+import { dispatchIntent, type IntentDispatch } from "../lib/intentRunner";
+import {
+  createClarification,
+  answerClarification,
+  clarificationOptions,
+  type PendingClarification,
+} from "../lib/conversation";
+import { IntentValidationError, formatIntentIssue } from "../lib/intentValidation";
+import { splitAddressedCommand } from "../lib/addressing";
+import { heldObjectIds } from "../lib/hands";
+import { exportClips, exportKeyframe, importClips, listClips } from "../lib/motionClips";
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 5, 10];
+
+// HUD state of the plan a robot is currently running
+interface RobotPlanState {
+  runner: PlanRunner;
+  status: PlanRunnerStatus;
+  step: number;
+}
 
 export default function PhysicalAIMVP() {
-  const [robots, setRobots] = useState<Robot[]>([
-    {
-      id: "robot-1",
-      name: "ANDREA Kernel I",
-      pose: JSON.parse(JSON.stringify(DEFAULT_POSE)),
-      position: { x: 0, y: -0.35, z: 0 }, // Standing on ground - feet at y=-2 plane
-      rotation: 0,
-      holdingObjectId: null,
-    },
-  ]);
-
-  const [objects, setObjects] = useState<PickableObject[]>([
-    { id: "obj-1", name: "red box", type: "box", position: { x: 1.5, y: -1.5, z: 0 }, color: "#ef4444", size: 0.3, isPicked: false },
-    { id: "obj-2", name: "blue ball", type: "sphere", position: { x: -1.5, y: -1.5, z: 1 }, color: "#3b82f6", size: 0.3, isPicked: false },
-    { id: "obj-3", name: "green cylinder", type: "cylinder", position: { x: 0.5, y: -1.5, z: -1.8 }, color: "#10b981", size: 0.3, isPicked: false },
-    { id: "obj-4", name: "yellow cube", type: "box", position: { x: -1, y: -1.5, z: -1 }, color: "#fbbf24", size: 0.25, isPicked: false },
-    { id: "obj-5", name: "purple sphere", type: "sphere", position: { x: 2, y: -1.5, z: -1.5 }, color: "#a855f7", size: 0.3, isPicked: false },
-  ]);
-
-  const [logs, setLogs] = useState<Intent[]>([]);
+  // World owns robots/objects; this component only renders it and forwards commands
+  const [world] = useState(() => new World(
+    { robots: createDefaultRobots(), objects: createDefaultObjects() },
+    simulationClock
+  ));
+  const { robots, objects } = useWorld(world);
+
+  const [logs, setLogs] = useState<ChatLogEntry[]>([]);
+  const [pendingClarification, setPendingClarification] = useState<PendingClarification | null>(null);
+  const [robotPlans, setRobotPlans] = useState<Record<string, RobotPlanState>>({});
+  const [simSpeed, setSimSpeed] = useState(simulationClock.speedMultiplier);
+  const [simPaused, setSimPaused] = useState(simulationClock.isPaused);
+  const [physicsMode, setPhysicsMode] = useState(false); // Robots driven by joint motors in Rapier
+  const [clipNames, setClipNames] = useState(() => listClips().map((clip) => clip.name));
+  const [editorOpen, setEditorOpen] = useState(false);
   const { parseCommand } = useIntentParser();
+  const [parserBackend] = useState(() => createParserBackend(parserConfigFromEnv(import.meta.env)));
 
-  // Cleanup intervals on unmount to prevent memory leaks
+  // Cancel running plans on unmount to prevent leaked clock subscriptions
   useEffect(() => {
     return () => {
-      cleanupAllIntervals();
+      world.cancelAllPlans();
     };
-  }, []);
+  }, [world]);
 
-  const applyAction = (intent: Intent) => {
-    setLogs((prev) => [...prev, intent]);
+  const changeSimSpeed = (speed: number) => {
+    simulationClock.setSpeed(speed);
+    setSimSpeed(simulationClock.speedMultiplier);
+  };
 
-    if (intent.type === "unknown") {
-      console.warn("Unknown command:", intent.text);
-      return;
-    }
+  const toggleSimPaused = () => {
+    if (simulationClock.isPaused) simulationClock.resume();
+    else simulationClock.pause();
+    setSimPaused(simulationClock.isPaused);
+  };
 
-    // Handle pick action with action planner
-    if (intent.type === "pick") {
-      const robot = robots[0]; // Assuming single robot for now
+  // Follow a started plan in its robot's HUD panel and wait until it finishes
+  const trackPlan = async (runner: PlanRunner) => {
+    const update = (changes: Partial<RobotPlanState>) =>
+      setRobotPlans((prev) => {
+        const current = prev[runner.robotId];
+        if (current && current.runner !== runner) return prev; // Superseded by a newer plan
+        const base = current ?? { runner, status: runner.currentStatus, step: 0 };
+        return { ...prev, [runner.robotId]: { ...base, ...changes } };
+      });
 
-      if (robot.holdingObjectId) {
-        console.warn("Robot is already holding an object");
-        return;
-      }
+    update({ status: runner.currentStatus, step: Math.max(0, runner.currentStepIndex) });
+    const unsubscribeStatus = runner.on("statusChange", ({ status }) => update({ status }));
+    const unsubscribeStep = runner.on("stepStart", ({ index }) => update({ step: index }));
+    const result = await runner.done;
+    unsubscribeStatus();
+    unsubscribeStep();
+    setRobotPlans((prev) => {
+      if (prev[runner.robotId]?.runner !== runner) return prev;
+      const next = { ...prev };
+      delete next[runner.robotId];
+      return next;
+    });
+    return result;
+  };
 
-      // Find target object using improved search
-      const targetObject = intent.objectName
-        ? findObjectByDescription(objects, intent.objectName)
-        : objects.find(obj => !obj.isPicked); // Default: first available
+  const addLog = (entry: ChatLogEntry) => setLogs((prev) => [...prev, entry]);
 
-      if (!targetObject) {
-        console.warn(`Object "${intent.objectName || 'any'}" not found`);
-        return;
-      }
+  // Execute one intent against the latest world state and wait for its plan.
+  // Not ok if the intent was rejected or its plan did not run to the end.
+  const runIntent = async (intent: Intent): Promise<IntentDispatch> => {
+    const dispatch = dispatchIntent(world, intent);
+    if (!dispatch.ok || !dispatch.runner) return dispatch;
 
-      // Create and execute pick plan
-      const plan = createPickPlan(robot, targetObject);
-      executeActionPlan(plan, robot, setRobots, setObjects, () => {
-        console.log(`Completed picking ${targetObject.name}`);
-      });
+    const result = await trackPlan(dispatch.runner);
+    console.log(`${intent.type}: ${result.status}`);
+    return result.status === "completed"
+      ? dispatch
+      : { ok: false, reason: result.reason ?? `${intent.type} ${result.status}` };
+  };
 
-      return;
+  // Execute intents sequentially - each plan is awaited before the next starts.
+  // An ambiguous pick stops the chain and asks the user; the rest waits for the answer.
+  const runIntents = async (intents: Intent[]) => {
+    for (const [index, intent] of intents.entries()) {
+      addLog({ kind: "intent", intent });
+
+      const dispatch = await runIntent(intent);
+      if (dispatch.ok) continue;
+
+      if (dispatch.candidates && dispatch.candidates.length > 0) {
+        const clarification = createClarification(intent, dispatch.candidates, intents.slice(index + 1), dispatch.candidatesFor);
+        setPendingClarification(clarification);
+        addLog({ kind: "robot", text: clarification.question, options: clarificationOptions(clarification.candidates) });
+      } else {
+        // Rejected, or the plan failed/was cancelled (e.g. no path to the object)
+        console.warn(dispatch.reason);
+        addLog({ kind: "robot", text: dispatch.reason });
+      }
+      break;
     }
+  };
 
-    // Handle drop action with action planner
-    if (intent.type === "drop") {
-      const robot = robots[0];
-
-      if (!robot.holdingObjectId) {
-        console.warn("Robot is not holding any object");
-        return;
+  // Reply to a pending question. Returns false if the text should be handled as a new command.
+  const answerPending = async (pending: PendingClarification, text: string): Promise<boolean> => {
+    const answer = answerClarification(pending, text);
+    if (answer.kind === "unclear") {
+      // A real command replaces the question; anything else gets asked again
+      if (parseCommand(text).some((intent) => intent.type !== "unknown")) {
+        setPendingClarification(null);
+        return false;
       }
-
-      // Create and execute drop plan
-      const plan = createDropPlan(robot);
-      executeActionPlan(plan, robot, setRobots, setObjects, () => {
-        console.log("Completed dropping object");
-      });
-
-      return;
+      addLog({ kind: "user", text });
+      addLog({ kind: "robot", text: `Sorry, I didn't get that. ${pending.question}`, options: clarificationOptions(pending.candidates) });
+      return true;
     }
 
-    setRobots((prev) =>
-      prev.map((robot) => {
-        if (intent.type === "reset") {
-          return { ...robot, pose: JSON.parse(JSON.stringify(DEFAULT_POSE)) };
-        }
-
-        if (intent.type === "wave" && intent.side) {
-          // Simple wave animation by toggling shoulder pitch
-          const newPose = JSON.parse(JSON.stringify(robot.pose));
-          const armKey = intent.side === "left" ? "leftArm" : "rightArm";
-          const currentPitch = newPose[armKey].shoulder.pitch;
-          newPose[armKey].shoulder.pitch = currentPitch > 45 ? 0 : 90;
-
-          // Wave multiple times
-          setTimeout(() => {
-            setRobots((r) =>
-              r.map((rb) => {
-                const p = JSON.parse(JSON.stringify(rb.pose));
-                const ak = intent.side === "left" ? "leftArm" : "rightArm";
-                p[ak].shoulder.pitch = 0;
-                return { ...rb, pose: p };
-              })
-            );
-          }, 300);
-          setTimeout(() => {
-            setRobots((r) =>
-              r.map((rb) => {
-                const p = JSON.parse(JSON.stringify(rb.pose));
-                const ak = intent.side === "left" ? "leftArm" : "rightArm";
-                p[ak].shoulder.pitch = 90;
-                return { ...rb, pose: p };
-              })
-            );
-          }, 600);
-          setTimeout(() => {
-            setRobots((r) =>
-              r.map((rb) => {
-                const p = JSON.parse(JSON.stringify(rb.pose));
-                const ak = intent.side === "left" ? "leftArm" : "rightArm";
-                p[ak].shoulder.pitch = 0;
-                return { ...rb, pose: p };
-              })
-            );
-          }, 900);
-
-          return { ...robot, pose: newPose };
-        }
-
-        return robot;
-      })
-    );
+    setPendingClarification(null);
+    addLog({ kind: "user", text });
+    if (answer.kind === "cancelled") {
+      addLog({ kind: "robot", text: "OK, never mind." });
+    } else {
+      void runIntents(answer.intents);
+    }
+    return true;
   };
 
-  const handleCommand = async (text: string) => {
-    // Try GPT parsing first, fallback to rule-based
+  // Clip JSON from a file; a file that can't be read or is malformed is reported in the chat and changes nothing
+  const importClipFile = async (file: File) => {
     try {
-      const intents = await parseCommandWithGPT(text);
-      console.log("Parsed intents:", intents);
-
-      // Execute intents sequentially - wait for each to complete
-      for (let i = 0; i < intents.length; i++) {
-        const intent = intents[i];
-
-        // For pick/drop actions, we need to wait for completion
-        if (intent.type === "pick" || intent.type === "drop") {
-          await new Promise<void>((resolve) => {
-            // Get fresh robot and objects state
-            setRobots((currentRobots) => {
-              setObjects((currentObjects) => {
-                const robot = currentRobots[0];
-
-                if (intent.type === "pick") {
-                  if (robot.holdingObjectId) {
-                    console.warn("Robot is already holding an object");
-                    resolve();
-                    return currentObjects;
-                  }
-
-                  const targetObject = intent.objectName
-                    ? findObjectByDescription(currentObjects, intent.objectName)
-                    : currentObjects.find(obj => !obj.isPicked);
-
-                  if (!targetObject) {
-                    console.warn(`Object "${intent.objectName || 'any'}" not found`);
-                    resolve();
-                    return currentObjects;
-                  }
+      const imported = importClips(await file.text());
+      setClipNames(listClips().map((clip) => clip.name));
+      addLog({ kind: "robot", text: `Imported ${imported.map((clip) => clip.name).join(", ")}` });
+    } catch (error) {
+      addLog({ kind: "error", text: file.name, messages: [error instanceof Error ? error.message : String(error)] });
+    }
+  };
 
-                  const plan = createPickPlan(robot, targetObject);
-                  executeActionPlan(plan, robot, setRobots, setObjects, resolve);
+  const downloadClips = () => {
+    const url = URL.createObjectURL(new Blob([exportClips()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "motion-clips.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-                } else if (intent.type === "drop") {
-                  if (!robot.holdingObjectId) {
-                    console.warn("Robot is not holding any object");
-                    resolve();
-                    return currentObjects;
-                  }
+  // The robot's pose as keyframe JSON on the clipboard, to paste into a clip file
+  const copyPoseKeyframe = async (robotId: string) => {
+    const robot = world.getRobot(robotId);
+    if (!robot) return;
+    try {
+      await navigator.clipboard.writeText(exportKeyframe(robot.pose));
+      addLog({ kind: "robot", text: `Copied ${robot.name}'s pose as a keyframe` });
+    } catch (error) {
+      // Denied permission, or not a secure context
+      addLog({ kind: "error", text: `Copy ${robot.name}'s pose`, messages: [error instanceof Error ? error.message : String(error)] });
+    }
+  };
 
-                  const plan = createDropPlan(robot);
-                  executeActionPlan(plan, robot, setRobots, setObjects, resolve);
-                }
+  const handleCommand = async (text: string) => {
+    if (pendingClarification && await answerPending(pendingClarification, text)) return;
 
-                return currentObjects;
-              });
-              return currentRobots;
-            });
-          });
-        } else {
-          // For other actions, execute normally
-          applyAction(intent);
-          // Small delay between non-action commands
-          if (i < intents.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 500));
-          }
-        }
+    // "ANDREA 2, ..." → that robot; unaddressed commands go to the first robot
+    const { robotId, command } = splitAddressedCommand(text, world.getRobots());
 
-        setLogs((prev) => [...prev, intent]);
-      }
+    // Configured backend first, rule-based parser when it fails or understands nothing
+    let intents: Intent[] = [];
+    try {
+      intents = await parserBackend.parse(command, world.getState());
     } catch (error) {
-      console.error("GPT parsing failed, using rule-based parser:", error);
-      const intent = parseCommand(text);
-      applyAction(intent);
+      console.error(`${parserBackend.name} parsing failed, using rule-based parser:`, error);
+      const messages = error instanceof IntentValidationError
+        ? error.issues.filter((issue) => issue.severity === "error").map(formatIntentIssue)
+        : [error instanceof Error ? error.message : String(error)];
+      addLog({ kind: "error", text, messages });
     }
+    if (intents.every((intent) => intent.type === "unknown")) {
+      intents = parseCommand(command);
+    }
+    intents = intents.map((intent) => (robotId ? { ...intent, text, robotId } : { ...intent, text }));
+    console.log("Parsed intents:", intents);
+
+    // Not awaited: the chat stays free for commands to other robots while this one works
+    void runIntents(intents);
   };
 
   return (
@@ -234,7 +223,12 @@ export default function PhysicalAIMVP() {
       </div>
 
       <div className="flex-1 relative">
-        <Scene robots={robots} objects={objects} />
+        <Scene
+          robots={robots}
+          objects={objects}
+          usePhysics={physicsMode}
+          onObjectSettled={(id, position, orientation) => world.settleObject(id, position, orientation)}
+        />
 
         {/* Clean HUD Overlay */}
         <div className="absolute top-4 left-4 space-y-2 pointer-events-none">
@@ -248,8 +242,110 @@ export default function PhysicalAIMVP() {
             <div className="text-gray-600 text-xs">
               <div>Robots: {robots.length}</div>
               <div>Objects: {objects.filter(o => !o.isPicked).length}/{objects.length}</div>
+              <div>Parser: {parserBackend.name}</div>
+            </div>
+          </div>
+          <div className="bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg px-4 py-2 shadow-sm pointer-events-auto">
+            <div className="text-gray-600 text-xs mb-2">Simulation: {simPaused ? "paused" : `${simSpeed}x`}</div>
+            <div className="flex flex-wrap gap-1 text-xs">
+              {SPEED_OPTIONS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => changeSimSpeed(speed)}
+                  className={`px-2 py-1 rounded border ${speed === simSpeed ? "border-gray-900 bg-gray-900 text-white" : "border-gray-300 hover:bg-gray-100"}`}
+                >
+                  {speed}x
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 text-xs mt-2">
+              <button onClick={toggleSimPaused} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">
+                {simPaused ? "Run" : "Freeze"}
+              </button>
+              <button
+                onClick={() => simulationClock.step()}
+                disabled={!simPaused}
+                className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Step
+              </button>
+              <button
+                onClick={() => setPhysicsMode((on) => !on)}
+                className={`px-2 py-1 rounded border ${physicsMode ? "border-gray-900 bg-gray-900 text-white" : "border-gray-300 hover:bg-gray-100"}`}
+              >
+                Physics {physicsMode ? "on" : "off"}
+              </button>
             </div>
           </div>
+          <div className="bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg px-4 py-2 shadow-sm pointer-events-auto">
+            <div className="text-gray-600 text-xs mb-2">Motion clips</div>
+            <div className="flex flex-wrap gap-1 text-xs">
+              {clipNames.map((name) => (
+                <button
+                  key={name}
+                  onClick={() => void runIntents([{ type: "clip", clipName: name, text: `play ${name}` }])}
+                  className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 text-xs mt-2">
+              <label className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 cursor-pointer">
+                Import
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) void importClipFile(file);
+                  }}
+                />
+              </label>
+              <button onClick={downloadClips} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">Export</button>
+              <button
+                onClick={() => setEditorOpen((open) => !open)}
+                className={`px-2 py-1 rounded border ${editorOpen ? "border-gray-900 bg-gray-900 text-white" : "border-gray-300 hover:bg-gray-100"}`}
+              >
+                Editor
+              </button>
+            </div>
+          </div>
+          {robots.map((robot) => {
+            const plan = robotPlans[robot.id];
+            const held = heldObjectIds(robot)
+              .map((id) => objects.find((obj) => obj.id === id)?.name)
+              .filter((name): name is string => name !== undefined);
+            return (
+              <div key={robot.id} className="bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg px-4 py-2 shadow-sm pointer-events-auto">
+                <div className="text-gray-700 text-xs font-medium">{robot.name}</div>
+                <div className="text-gray-600 text-xs">
+                  <div>Holding: {held.length > 0 ? held.join(", ") : "nothing"}</div>
+                  <div>
+                    Plan: {plan ? `${plan.status} · step ${plan.step + 1}/${plan.runner.plan.steps.length}` : "idle"}
+                  </div>
+                </div>
+                <div className="flex gap-2 text-xs mt-2">
+                  <button onClick={() => void copyPoseKeyframe(robot.id)} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">
+                    Copy pose
+                  </button>
+                </div>
+                {plan && (
+                  <div className="flex gap-2 text-xs mt-2">
+                    {plan.status === "paused" ? (
+                      <button onClick={() => plan.runner.resume()} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">Resume</button>
+                    ) : (
+                      <button onClick={() => plan.runner.pause()} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">Pause</button>
+                    )}
+                    <button onClick={() => plan.runner.skipStep()} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">Skip</button>
+                    <button onClick={() => plan.runner.cancel()} className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">Cancel</button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         {/* Top right branding */}
@@ -263,6 +359,16 @@ export default function PhysicalAIMVP() {
         </div>
       </div>
 
+      {editorOpen && (
+        <div className="w-80 border-l border-gray-200 bg-white relative">
+          <KeyframeEditor
+            world={world}
+            robots={robots}
+            onClipSaved={() => setClipNames(listClips().map((clip) => clip.name))}
+          />
+        </div>
+      )}
+
       <div className="w-[28rem] border-l border-gray-200 shadow-lg bg-white relative">
         <ChatPanel onCommand={handleCommand} logs={logs} />
       </div>
@@ -1,337 +1,275 @@
-import { useRef, useEffect } from "react";
+import { useRef, useState, type ReactNode, type RefObject } from "react";
 import { useFrame } from "@react-three/fiber";
-import { RigidBody, CapsuleCollider, BallCollider, RapierRigidBody } from "@react-three/rapier";
+import {
+  RigidBody,
+  CapsuleCollider,
+  CuboidCollider,
+  RapierRigidBody,
+  interactionGroups,
+  useBeforePhysicsStep,
+  useRevoluteJoint,
+  useSphericalJoint,
+} from "@react-three/rapier";
 import * as THREE from "three";
-import type { Robot, PickableObject } from "../lib/types";
+import type { Robot, Side } from "../lib/types";
+import type { HeldItem } from "./Humanoid";
+import { applyPoseTracking } from "../lib/physicsController";
+import { forwardKinematics, type JointTransform } from "../lib/forwardKinematics";
+import { hipPosition, shoulderPosition } from "../lib/inverseKinematics";
+import { JOINT_LIMITS } from "../lib/clamp";
+import { SKELETON } from "../lib/skeleton";
+import { handAngles } from "../lib/grasp";
+import ArticulatedHand from "./ArticulatedHand";
+import { ObjectMesh } from "./PickableObject";
 
 interface PhysicsHumanoidProps {
   robot: Robot;
-  heldObject?: PickableObject;
+  held?: HeldItem[];
+}
+
+// kg per segment (hand and foot included in the lower segments)
+const SEGMENT_MASS = { upperArm: 2.5, forearm: 2, thigh: 5, shin: 3.5 };
+
+// Limbs collide with the ground only (group 0): not with each other, other robots or objects
+const LIMB_GROUPS = interactionGroups(1, [0]);
+
+const toTuple = (v: { x: number; y: number; z: number }): [number, number, number] => [v.x, v.y, v.z];
+
+function frameRotation(frame: JointTransform): THREE.Quaternion {
+  const { x, y, z } = frame.axes;
+  const basis = new THREE.Matrix4().makeBasis(
+    new THREE.Vector3(x.x, x.y, x.z),
+    new THREE.Vector3(y.x, y.y, y.z),
+    new THREE.Vector3(z.x, z.y, z.z)
+  );
+  return new THREE.Quaternion().setFromRotationMatrix(basis);
+}
+
+function yawRotation(robot: Robot): THREE.Quaternion {
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(0, THREE.MathUtils.degToRad(-robot.rotation), 0));
+}
+
+const limitsOf = (flex: { min: number; max: number }): [number, number] => [
+  THREE.MathUtils.degToRad(flex.min),
+  THREE.MathUtils.degToRad(flex.max),
+];
+
+interface SegmentProps {
+  bodyRef: RefObject<RapierRigidBody>;
+  frame: JointTransform; // Starting place of the joint the segment hangs from
+  length: number;
+  radius: number;
+  mass: number;
+  color: string;
+  children?: ReactNode;
+}
+
+// One dynamic limb segment with its origin at the joint it hangs from
+function Segment({ bodyRef, frame, length, radius, mass, color, children }: SegmentProps) {
+  return (
+    <RigidBody
+      ref={bodyRef}
+      position={toTuple(frame.position)}
+      rotation={new THREE.Euler().setFromQuaternion(frameRotation(frame))}
+      angularDamping={2}
+      colliders={false}
+      collisionGroups={LIMB_GROUPS}
+      canSleep={false}
+    >
+      {/* Mass on the collider, so the inertia comes from the capsule's shape */}
+      <CapsuleCollider args={[length / 2 - radius, radius]} position={[0, -length / 2, 0]} mass={mass} />
+      <mesh position={[0, -length / 2, 0]} castShadow receiveShadow>
+        <capsuleGeometry args={[radius, length - radius * 2, 8, 16]} />
+        <meshStandardMaterial color={color} metalness={0.6} roughness={0.4} />
+      </mesh>
+      {children}
+    </RigidBody>
+  );
 }
 
 /**
  * Physics-based humanoid robot inspired by PHC (Perpetual Humanoid Control)
- * Uses Rapier physics engine for realistic dynamics:
- * - Rigid body parts with mass and inertia
- * - Joint constraints with motors
- * - Ground contact and balance control
- * - PD controllers for target pose tracking
+ * Uses Rapier physics engine for the limbs:
+ * - Upper/lower arm and leg segments are dynamic rigid bodies with mass
+ * - Ball joints at shoulders and hips, hinges (with JOINT_LIMITS) at elbows and knees
+ * - PD torques (applyPoseTracking) drive every joint towards robot.pose
+ * - Feet touch the ground
+ *
+ * The torso and pelvis are kinematic: they follow robot.position, rotation and
+ * torso lean and twist from the world, so balance and walking are not simulated.
+ * The head, wrists and fingers are posed directly, without bodies of their own.
  */
-export default function PhysicsHumanoid({ robot, heldObject }: PhysicsHumanoidProps) {
-  // Rigid body references for each body part
-  const torsoRef = useRef<RapierRigidBody>(null);
-  const headRef = useRef<RapierRigidBody>(null);
+export default function PhysicsHumanoid({ robot, held = [] }: PhysicsHumanoidProps) {
+  // Starting pose of every body, from the same kinematics the Humanoid is drawn with
+  const [start] = useState(() => forwardKinematics(robot));
+  const latest = useRef(robot);
+  latest.current = robot;
 
+  const torsoRef = useRef<RapierRigidBody>(null);
+  const pelvisRef = useRef<RapierRigidBody>(null);
   const leftUpperArmRef = useRef<RapierRigidBody>(null);
   const leftForearmRef = useRef<RapierRigidBody>(null);
   const rightUpperArmRef = useRef<RapierRigidBody>(null);
   const rightForearmRef = useRef<RapierRigidBody>(null);
-
   const leftThighRef = useRef<RapierRigidBody>(null);
   const leftCalfRef = useRef<RapierRigidBody>(null);
   const rightThighRef = useRef<RapierRigidBody>(null);
   const rightCalfRef = useRef<RapierRigidBody>(null);
+  const heldRefs = useRef<Record<string, THREE.Group | null>>({});
 
-  // Visual mesh references (for rendering only)
-  const leftShoulderMeshRef = useRef<THREE.Group>(null);
-  const leftElbowMeshRef = useRef<THREE.Group>(null);
-  const rightShoulderMeshRef = useRef<THREE.Group>(null);
-  const rightElbowMeshRef = useRef<THREE.Group>(null);
-  const leftHipMeshRef = useRef<THREE.Group>(null);
-  const leftKneeMeshRef = useRef<THREE.Group>(null);
-  const rightHipMeshRef = useRef<THREE.Group>(null);
-  const rightKneeMeshRef = useRef<THREE.Group>(null);
-
-  // PD controller gains (proportional-derivative)
-  const KP = 100; // Proportional gain (stiffness)
-  const KD = 10;  // Derivative gain (damping)
-
-  useEffect(() => {
-    // Initialize robot at specified position
-    if (torsoRef.current) {
-      torsoRef.current.setTranslation(
-        { x: robot.position.x, y: robot.position.y, z: robot.position.z },
-        true
-      );
-      torsoRef.current.setRotation(
-        { x: 0, y: THREE.MathUtils.degToRad(robot.rotation), z: 0, w: 1 },
-        true
-      );
-    }
-  }, [robot.position.x, robot.position.y, robot.position.z, robot.rotation]);
-
-  useFrame((state) => {
-    // PD control: Apply torques to match target pose
-    // This is inspired by PHC's approach to continuous control
-    const time = state.clock.elapsedTime;
-
-    // Torso stabilization and balance control
-    if (torsoRef.current) {
-      const linvel = torsoRef.current.linvel();
-      const angvel = torsoRef.current.angvel();
+  useSphericalJoint(torsoRef, leftUpperArmRef, [toTuple(shoulderPosition("left")), [0, 0, 0]]);
+  useSphericalJoint(torsoRef, rightUpperArmRef, [toTuple(shoulderPosition("right")), [0, 0, 0]]);
+  useRevoluteJoint(leftUpperArmRef, leftForearmRef, [[0, -SKELETON.upperArm, 0], [0, 0, 0], [1, 0, 0], limitsOf(JOINT_LIMITS.elbow.flex)]);
+  useRevoluteJoint(rightUpperArmRef, rightForearmRef, [[0, -SKELETON.upperArm, 0], [0, 0, 0], [1, 0, 0], limitsOf(JOINT_LIMITS.elbow.flex)]);
+  useSphericalJoint(pelvisRef, leftThighRef, [toTuple(hipPosition("left")), [0, 0, 0]]);
+  useSphericalJoint(pelvisRef, rightThighRef, [toTuple(hipPosition("right")), [0, 0, 0]]);
+  // Knees bend back, a turn about -x
+  useRevoluteJoint(leftThighRef, leftCalfRef, [[0, -SKELETON.thigh, 0], [0, 0, 0], [-1, 0, 0], limitsOf(JOINT_LIMITS.knee.flex)]);
+  useRevoluteJoint(rightThighRef, rightCalfRef, [[0, -SKELETON.thigh, 0], [0, 0, 0], [-1, 0, 0], limitsOf(JOINT_LIMITS.knee.flex)]);
 
-      // Apply damping to prevent excessive motion
-      torsoRef.current.applyImpulse({ x: -linvel.x * 0.1, y: 0, z: -linvel.z * 0.1 }, true);
+  useBeforePhysicsStep((world) => {
+    const current = latest.current;
+    const position = current.position;
+    torsoRef.current?.setNextKinematicTranslation(position);
+    torsoRef.current?.setNextKinematicRotation(frameRotation(forwardKinematics(current).torso));
+    pelvisRef.current?.setNextKinematicTranslation(position);
+    pelvisRef.current?.setNextKinematicRotation(yawRotation(current));
 
-      // Balance control - keep torso upright
-      const rotation = torsoRef.current.rotation();
-      const currentQuat = new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
-      const euler = new THREE.Euler().setFromQuaternion(currentQuat);
-
-      // Apply corrective torques to maintain upright posture
-      const tiltX = euler.x;
-      const tiltZ = euler.z;
-      const balanceStrength = 50;
-
-      torsoRef.current.applyTorqueImpulse({
-        x: -tiltX * balanceStrength - angvel.x * 10,
-        y: -angvel.y * 0.5,
-        z: -tiltZ * balanceStrength - angvel.z * 10,
-      }, true);
-
-      // Apply upward force if too low
-      const pos = torsoRef.current.translation();
-      if (pos.y < robot.position.y - 0.3) {
-        torsoRef.current.applyImpulse({ x: 0, y: 20, z: 0 }, true);
-      }
-    }
-
-    // Apply walking forces for smooth locomotion
-    if (leftThighRef.current && rightThighRef.current) {
-      const walkPhase = (time * 0.5) % 1; // Walking cycle
+    applyPoseTracking(current.pose, {
+      torso: torsoRef.current,
+      pelvis: pelvisRef.current,
+      leftArm: { upper: leftUpperArmRef.current, lower: leftForearmRef.current },
+      rightArm: { upper: rightUpperArmRef.current, lower: rightForearmRef.current },
+      leftLeg: { upper: leftThighRef.current, lower: leftCalfRef.current },
+      rightLeg: { upper: rightThighRef.current, lower: rightCalfRef.current },
+    }, world.timestep);
+  });
 
-      // Alternate leg forces
-      const leftForce = Math.sin(walkPhase * Math.PI * 2);
-      const rightForce = Math.sin((walkPhase + 0.5) * Math.PI * 2);
+  // Held objects follow the simulated hands (one hand: under the palm, both: between the palms)
+  useFrame(() => {
+    const handPoint = (forearm: RapierRigidBody | null) => {
+      if (!forearm) return null;
+      const r = forearm.rotation();
+      const offset = new THREE.Vector3(0, -SKELETON.forearm, 0).applyQuaternion(new THREE.Quaternion(r.x, r.y, r.z, r.w));
+      const t = forearm.translation();
+      return new THREE.Vector3(t.x, t.y, t.z).add(offset);
+    };
+    const hands: Record<Side, THREE.Vector3 | null> = {
+      left: handPoint(leftForearmRef.current),
+      right: handPoint(rightForearmRef.current),
+    };
 
-      if (leftForce < 0) {
-        leftCalfRef.current?.applyImpulse({ x: 0, y: 0, z: leftForce * 5 }, true);
+    for (const { object, grip } of held) {
+      const heldGroup = heldRefs.current[object.id];
+      if (!heldGroup) continue;
+      if (grip === "both") {
+        if (!hands.left || !hands.right) continue;
+        heldGroup.position.copy(hands.left).add(hands.right).multiplyScalar(0.5);
+      } else {
+        const hand = hands[grip];
+        if (!hand) continue;
+        heldGroup.position.copy(hand);
+        heldGroup.position.y -= object.size / 2;
       }
-      if (rightForce < 0) {
-        rightCalfRef.current?.applyImpulse({ x: 0, y: 0, z: rightForce * 5 }, true);
-      }
-    }
-
-    // Sync visual meshes with target pose from robot.pose
-    if (leftShoulderMeshRef.current) {
-      leftShoulderMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        -robot.pose.leftArm.shoulder.pitch
-      );
-    }
-    if (leftElbowMeshRef.current) {
-      leftElbowMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.leftArm.elbow.flex
-      );
-    }
-    if (rightShoulderMeshRef.current) {
-      rightShoulderMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        -robot.pose.rightArm.shoulder.pitch
-      );
-    }
-    if (rightElbowMeshRef.current) {
-      rightElbowMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.rightArm.elbow.flex
-      );
-    }
-    if (leftHipMeshRef.current) {
-      leftHipMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.leftLeg.hip.pitch
-      );
-    }
-    if (leftKneeMeshRef.current) {
-      leftKneeMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.leftLeg.knee.flex
-      );
-    }
-    if (rightHipMeshRef.current) {
-      rightHipMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.rightLeg.hip.pitch
-      );
-    }
-    if (rightKneeMeshRef.current) {
-      rightKneeMeshRef.current.rotation.x = THREE.MathUtils.degToRad(
-        robot.pose.rightLeg.knee.flex
-      );
+      heldGroup.quaternion.copy(yawRotation(latest.current));
     }
   });
 
+  // Posed straight from robot.pose (the hand and head are not simulated), with the signs Humanoid uses
+  const hand = (side: Side) => {
+    const wrist = robot.pose[`${side}Arm`].wrist ?? { flex: 0, twist: 0 };
+    const sign = side === "left" ? -1 : 1;
+    return (
+      <group position={[0, -SKELETON.forearm, 0]} rotation={new THREE.Euler(0, THREE.MathUtils.degToRad(-sign * wrist.twist), THREE.MathUtils.degToRad(-sign * wrist.flex), "YZX")}>
+        <ArticulatedHand side={side} angles={handAngles(robot.pose, side)} />
+      </group>
+    );
+  };
+  const neck = robot.pose.neck ?? { yaw: 0, pitch: 0 };
+  const foot = (
+    <>
+      <CuboidCollider args={[0.075, SKELETON.footHeight / 2, 0.125]} position={[0, -SKELETON.shin, -0.08]} />
+      <mesh position={[0, -SKELETON.shin, -0.08]} castShadow receiveShadow>
+        <boxGeometry args={[0.15, SKELETON.footHeight, 0.25]} />
+        <meshStandardMaterial color="#374151" metalness={0.7} roughness={0.3} />
+      </mesh>
+    </>
+  );
+
   return (
     <group>
-      {/* Torso - Main body with physics */}
+      {/* Torso - kinematic, leans with pose.torso */}
       <RigidBody
         ref={torsoRef}
-        position={[robot.position.x, robot.position.y, robot.position.z]}
-        rotation={[0, THREE.MathUtils.degToRad(robot.rotation), 0]}
-        mass={15} // kg
-        linearDamping={0.5}
-        angularDamping={0.8}
+        type="kinematicPosition"
+        position={toTuple(robot.position)}
+        rotation={new THREE.Euler().setFromQuaternion(frameRotation(start.torso))}
         colliders={false}
-        enabledRotations={[false, true, false]} // Only allow Y-axis rotation
+        collisionGroups={LIMB_GROUPS}
       >
-        <CapsuleCollider args={[0.4, 0.3]} />
-        <mesh>
-          <boxGeometry args={[0.8, 1.2, 0.4]} />
-          <meshStandardMaterial color="#3b82f6" />
-        </mesh>
-
-        {/* Head - attached to torso */}
-        <mesh position={[0, 0.9, 0]}>
-          <sphereGeometry args={[0.3, 32, 32]} />
-          <meshStandardMaterial color="#60a5fa" />
+        <CuboidCollider args={[SKELETON.torso.x, SKELETON.torso.y, SKELETON.torso.z]} />
+        <mesh castShadow receiveShadow>
+          <boxGeometry args={[0.6, 1.0, 0.35]} />
+          <meshStandardMaterial color="#e5e7eb" metalness={0.6} roughness={0.4} />
         </mesh>
-
-        {/* Face - Eyes */}
-        <mesh position={[-0.1, 0.95, 0.25]}>
-          <sphereGeometry args={[0.05, 16, 16]} />
-          <meshStandardMaterial color="#1e293b" />
-        </mesh>
-        <mesh position={[0.1, 0.95, 0.25]}>
-          <sphereGeometry args={[0.05, 16, 16]} />
-          <meshStandardMaterial color="#1e293b" />
-        </mesh>
-
-        {/* Nose/mouth indicator */}
-        <mesh position={[0, 0.85, 0.28]}>
-          <boxGeometry args={[0.08, 0.04, 0.04]} />
-          <meshStandardMaterial color="#f59e0b" />
+        <mesh position={[0, 0.1, -0.18]} castShadow>
+          <boxGeometry args={[0.4, 0.6, 0.02]} />
+          <meshStandardMaterial color="#1f2937" metalness={0.8} roughness={0.3} />
         </mesh>
-
-        {/* Left Arm - visual representation */}
-        <group ref={leftShoulderMeshRef} position={[-0.5, 0.4, 0]}>
-          <mesh position={[0, -0.3, 0]}>
-            <cylinderGeometry args={[0.08, 0.08, 0.6, 16]} />
-            <meshStandardMaterial color="#2563eb" />
+        <group position={[0, SKELETON.neck, 0]} rotation={new THREE.Euler(THREE.MathUtils.degToRad(-neck.pitch), THREE.MathUtils.degToRad(-neck.yaw), 0, "YXZ")}>
+          <mesh position={[0, 0.25, 0]} castShadow receiveShadow>
+            <sphereGeometry args={[0.25, 12, 12]} />
+            <meshStandardMaterial color="#f3f4f6" metalness={0.5} roughness={0.4} />
           </mesh>
-
-          <group ref={leftElbowMeshRef} position={[0, -0.6, 0]}>
-            <mesh position={[0, -0.25, 0]}>
-              <cylinderGeometry args={[0.07, 0.07, 0.5, 16]} />
-              <meshStandardMaterial color="#1d4ed8" />
-            </mesh>
-          </group>
-        </group>
-
-        {/* Right Arm - visual representation */}
-        <group ref={rightShoulderMeshRef} position={[0.5, 0.4, 0]}>
-          <mesh position={[0, -0.3, 0]}>
-            <cylinderGeometry args={[0.08, 0.08, 0.6, 16]} />
-            <meshStandardMaterial color="#2563eb" />
+          <mesh position={[0, SKELETON.eyes, -0.22]} rotation={[-0.1, 0, 0]} castShadow>
+            <boxGeometry args={[0.35, 0.12, 0.05]} />
+            <meshStandardMaterial color="#111827" metalness={0.9} roughness={0.1} transparent opacity={0.8} />
           </mesh>
-
-          <group ref={rightElbowMeshRef} position={[0, -0.6, 0]}>
-            <mesh position={[0, -0.25, 0]}>
-              <cylinderGeometry args={[0.07, 0.07, 0.5, 16]} />
-              <meshStandardMaterial color="#1d4ed8" />
-            </mesh>
-          </group>
         </group>
-
-        {/* Held object visualization */}
-        {heldObject && (
-          <group position={[0.5, -0.3, 0.5]}>
-            {heldObject.type === "box" && (
-              <mesh>
-                <boxGeometry args={[heldObject.size, heldObject.size, heldObject.size]} />
-                <meshStandardMaterial color={heldObject.color} />
-              </mesh>
-            )}
-            {heldObject.type === "sphere" && (
-              <mesh>
-                <sphereGeometry args={[heldObject.size / 2, 32, 32]} />
-                <meshStandardMaterial color={heldObject.color} />
-              </mesh>
-            )}
-            {heldObject.type === "cylinder" && (
-              <mesh>
-                <cylinderGeometry args={[heldObject.size / 2, heldObject.size / 2, heldObject.size, 32]} />
-                <meshStandardMaterial color={heldObject.color} />
-              </mesh>
-            )}
-          </group>
-        )}
+        <mesh position={[0, 0.5, 0]}>
+          <cylinderGeometry args={[0.08, 0.1, 0.15, 16]} />
+          <meshStandardMaterial color="#374151" metalness={0.7} roughness={0.3} />
+        </mesh>
       </RigidBody>
 
-      {/* Left Leg - Physics bodies */}
-      <group position={[robot.position.x, robot.position.y, robot.position.z]}>
-        <group ref={leftHipMeshRef} position={[-0.25, -0.6, 0]}>
-          <RigidBody
-            ref={leftThighRef}
-            position={[0, -0.35, 0]}
-            mass={5}
-            linearDamping={0.5}
-            angularDamping={0.5}
-            colliders={false}
-          >
-            <CapsuleCollider args={[0.35, 0.1]} />
-            <mesh>
-              <cylinderGeometry args={[0.1, 0.1, 0.7, 16]} />
-              <meshStandardMaterial color="#10b981" />
-            </mesh>
-          </RigidBody>
+      {/* Pelvis - kinematic, turns with the robot; the legs hang from it */}
+      <RigidBody
+        ref={pelvisRef}
+        type="kinematicPosition"
+        position={toTuple(robot.position)}
+        rotation={[0, THREE.MathUtils.degToRad(-robot.rotation), 0]}
+        colliders={false}
+      />
 
-          <group ref={leftKneeMeshRef} position={[0, -0.7, 0]}>
-            <RigidBody
-              ref={leftCalfRef}
-              position={[0, -0.3, 0]}
-              mass={3}
-              linearDamping={0.5}
-              angularDamping={0.5}
-              colliders={false}
-            >
-              <CapsuleCollider args={[0.3, 0.09]} />
-              <mesh>
-                <cylinderGeometry args={[0.09, 0.09, 0.6, 16]} />
-                <meshStandardMaterial color="#059669" />
-              </mesh>
-              {/* Foot - ground contact */}
-              <mesh position={[0, -0.35, 0.1]}>
-                <boxGeometry args={[0.15, 0.1, 0.25]} />
-                <meshStandardMaterial color="#047857" />
-              </mesh>
-            </RigidBody>
-          </group>
-        </group>
+      <Segment bodyRef={leftUpperArmRef} frame={start.leftShoulder} length={SKELETON.upperArm} radius={0.07} mass={SEGMENT_MASS.upperArm} color="#d1d5db" />
+      <Segment bodyRef={leftForearmRef} frame={start.leftElbow} length={SKELETON.forearm} radius={0.06} mass={SEGMENT_MASS.forearm} color="#e5e7eb">
+        {hand("left")}
+      </Segment>
+      <Segment bodyRef={rightUpperArmRef} frame={start.rightShoulder} length={SKELETON.upperArm} radius={0.07} mass={SEGMENT_MASS.upperArm} color="#d1d5db" />
+      <Segment bodyRef={rightForearmRef} frame={start.rightElbow} length={SKELETON.forearm} radius={0.06} mass={SEGMENT_MASS.forearm} color="#e5e7eb">
+        {hand("right")}
+      </Segment>
 
-        {/* Right Leg - Physics bodies */}
-        <group ref={rightHipMeshRef} position={[0.25, -0.6, 0]}>
-          <RigidBody
-            ref={rightThighRef}
-            position={[0, -0.35, 0]}
-            mass={5}
-            linearDamping={0.5}
-            angularDamping={0.5}
-            colliders={false}
-          >
-            <CapsuleCollider args={[0.35, 0.1]} />
-            <mesh>
-              <cylinderGeometry args={[0.1, 0.1, 0.7, 16]} />
-              <meshStandardMaterial color="#10b981" />
-            </mesh>
-          </RigidBody>
+      <Segment bodyRef={leftThighRef} frame={start.leftHip} length={SKELETON.thigh} radius={0.09} mass={SEGMENT_MASS.thigh} color="#d1d5db" />
+      <Segment bodyRef={leftCalfRef} frame={start.leftKnee} length={SKELETON.shin} radius={0.08} mass={SEGMENT_MASS.shin} color="#e5e7eb">
+        {foot}
+      </Segment>
+      <Segment bodyRef={rightThighRef} frame={start.rightHip} length={SKELETON.thigh} radius={0.09} mass={SEGMENT_MASS.thigh} color="#d1d5db" />
+      <Segment bodyRef={rightCalfRef} frame={start.rightKnee} length={SKELETON.shin} radius={0.08} mass={SEGMENT_MASS.shin} color="#e5e7eb">
+        {foot}
+      </Segment>
 
-          <group ref={rightKneeMeshRef} position={[0, -0.7, 0]}>
-            <RigidBody
-              ref={rightCalfRef}
-              position={[0, -0.3, 0]}
-              mass={3}
-              linearDamping={0.5}
-              angularDamping={0.5}
-              colliders={false}
-            >
-              <CapsuleCollider args={[0.3, 0.09]} />
-              <mesh>
-                <cylinderGeometry args={[0.09, 0.09, 0.6, 16]} />
-                <meshStandardMaterial color="#059669" />
-              </mesh>
-              {/* Foot - ground contact */}
-              <mesh position={[0, -0.35, 0.1]}>
-                <boxGeometry args={[0.15, 0.1, 0.25]} />
-                <meshStandardMaterial color="#047857" />
-              </mesh>
-            </RigidBody>
-          </group>
+      {/* Held objects (placed at the simulated hands every frame) */}
+      {held.map(({ object: heldObject }) => (
+        <group
+          key={heldObject.id}
+          ref={(group) => {
+            heldRefs.current[heldObject.id] = group;
+          }}
+        >
+          <ObjectMesh object={heldObject} />
         </group>
-      </group>
+      ))}
     </group>
   );
 }
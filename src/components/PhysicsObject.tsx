@@ -0,0 +1,134 @@
+import { useRef } from "react";
+import {
+  RigidBody,
+  BallCollider,
+  CuboidCollider,
+  CylinderCollider,
+  RapierRigidBody,
+  interactionGroups,
+  useAfterPhysicsStep,
+  useBeforePhysicsStep,
+} from "@react-three/rapier";
+import * as THREE from "three";
+import type { PickableObject, Quaternion, Vector3 } from "../lib/types";
+import { ObjectMesh } from "./PickableObject";
+
+interface PhysicsObjectProps {
+  object: PickableObject;
+  holdPoint?: Vector3; // Centre of the hand(s) carrying it, while picked
+  onSettled?: (id: string, position: Vector3, orientation: Quaternion) => void;
+}
+
+// Objects collide with the ground and each other, not with the robots' limbs
+const OBJECT_GROUPS = interactionGroups(2, [0, 2]);
+
+const FRICTION = 0.7;
+const RESTITUTION = 0.15;
+// Stand-ins for rolling resistance and air drag, so a thrown ball rolls a few metres, not forever
+const LINEAR_DAMPING = 0.5;
+const ANGULAR_DAMPING = 1.5;
+const MOVED = 1e-4; // World position change (m) that counts as the world moving the object
+const RESYNC = 0.01; // Settled drift (m) worth writing back to the world
+const SETTLE_SPEED = 0.02; // m/s and rad/s under which the body counts as still
+const SETTLE_STEPS = 30; // Physics steps it has to stay still
+
+const distance = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+/**
+ * A pickable object as a Rapier rigid body (physics mode).
+ *
+ * The world stays the source of truth while it moves the object (placing,
+ * pushing, a throw's flight): the body is put where the world says, carrying
+ * the velocity of that motion. Released objects fall from the hand, and
+ * whatever comes to rest somewhere new is reported through `onSettled`, so
+ * later plans target where the object actually ended up.
+ */
+export default function PhysicsObject({ object, holdPoint, onSettled }: PhysicsObjectProps) {
+  const bodyRef = useRef<RapierRigidBody>(null);
+  const latest = useRef({ object, holdPoint, onSettled });
+  latest.current = { object, holdPoint, onSettled };
+
+  const synced = useRef<Vector3>({ ...object.position }); // World position the body last matched
+  const sinceWorldMove = useRef(0); // Seconds since the world last moved it
+  const lastHoldPoint = useRef<Vector3 | null>(null);
+  const stillSteps = useRef(0);
+
+  useBeforePhysicsStep((world) => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const { object: current, holdPoint: hold } = latest.current;
+    sinceWorldMove.current += world.timestep;
+
+    // In hand: out of the simulation until it is let go
+    if (current.isPicked) {
+      if (body.isEnabled()) body.setEnabled(false);
+      lastHoldPoint.current = hold ? { ...hold } : lastHoldPoint.current;
+      return;
+    }
+
+    // Just let go: falls from the hand onto the spot the world chose
+    if (!body.isEnabled()) {
+      const fromY = lastHoldPoint.current ? lastHoldPoint.current.y - current.size / 2 : current.position.y;
+      body.setTranslation({ ...current.position, y: Math.max(current.position.y, fromY) }, true);
+      body.setRotation({ x: 0, y: 0, z: 0, w: 1 }, true);
+      body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+      body.setEnabled(true);
+      synced.current = { ...current.position };
+      sinceWorldMove.current = 0;
+      lastHoldPoint.current = null;
+      stillSteps.current = 0;
+      return;
+    }
+
+    // Moved by the world: follow it, keeping the speed of that motion
+    if (distance(current.position, synced.current) > MOVED) {
+      const dt = Math.max(sinceWorldMove.current, world.timestep);
+      body.setTranslation(current.position, true);
+      body.setLinvel({
+        x: (current.position.x - synced.current.x) / dt,
+        y: (current.position.y - synced.current.y) / dt,
+        z: (current.position.z - synced.current.z) / dt,
+      }, true);
+      synced.current = { ...current.position };
+      sinceWorldMove.current = 0;
+      stillSteps.current = 0;
+    }
+  });
+
+  useAfterPhysicsStep(() => {
+    const body = bodyRef.current;
+    if (!body || !body.isEnabled()) return;
+
+    const linvel = body.linvel();
+    const angvel = body.angvel();
+    const still = Math.hypot(linvel.x, linvel.y, linvel.z) < SETTLE_SPEED && Math.hypot(angvel.x, angvel.y, angvel.z) < SETTLE_SPEED;
+    stillSteps.current = still ? stillSteps.current + 1 : 0;
+    if (stillSteps.current !== SETTLE_STEPS) return;
+
+    const position = body.translation();
+    if (distance(position, synced.current) < RESYNC) return;
+    const rotation = body.rotation();
+    synced.current = { x: position.x, y: position.y, z: position.z };
+    latest.current.onSettled?.(object.id, { ...synced.current }, { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w });
+  });
+
+  const half = object.size / 2;
+  const q = object.orientation;
+  return (
+    <RigidBody
+      ref={bodyRef}
+      position={[object.position.x, object.position.y, object.position.z]}
+      rotation={q ? new THREE.Euler().setFromQuaternion(new THREE.Quaternion(q.x, q.y, q.z, q.w)) : [0, 0, 0]}
+      colliders={false}
+      linearDamping={LINEAR_DAMPING}
+      angularDamping={ANGULAR_DAMPING}
+      collisionGroups={OBJECT_GROUPS}
+    >
+      {object.type === "box" && <CuboidCollider args={[half, half, half]} mass={object.mass} friction={FRICTION} restitution={RESTITUTION} />}
+      {object.type === "sphere" && <BallCollider args={[half]} mass={object.mass} friction={FRICTION} restitution={RESTITUTION} />}
+      {object.type === "cylinder" && <CylinderCollider args={[half, half]} mass={object.mass} friction={FRICTION} restitution={RESTITUTION} />}
+      {!object.isPicked && <ObjectMesh object={object} />}
+    </RigidBody>
+  );
+}
@@ -4,21 +4,10 @@ interface PickableObjectProps {
   object: PickableObject;
 }
 
-export default function PickableObjectComponent({ object }: PickableObjectProps) {
-  if (object.isPicked) return null; // Don't render if picked up
-
-  // Calculate proper ground position based on object type and size
-  const groundPlane = -2; // Ground plane
-  let objectY = groundPlane;
-
-  if (object.type === "box" || object.type === "cylinder") {
-    objectY = groundPlane + object.size / 2; // Bottom of box/cylinder touches ground
-  } else if (object.type === "sphere") {
-    objectY = groundPlane + object.size / 2; // Bottom of sphere touches ground
-  }
-
+// The object's shape around its centre, shared with the physics mode (PhysicsObject)
+export function ObjectMesh({ object }: PickableObjectProps) {
   return (
-    <group position={[object.position.x, objectY, object.position.z]}>
+    <>
       <mesh castShadow receiveShadow>
         {object.type === "box" && <boxGeometry args={[object.size, object.size, object.size]} />}
         {object.type === "sphere" && <sphereGeometry args={[object.size / 2, 16, 16]} />}
@@ -43,6 +32,21 @@ export default function PickableObjectComponent({ object }: PickableObjectProps)
           wireframe
         />
       </mesh>
+    </>
+  );
+}
+
+export default function PickableObjectComponent({ object }: PickableObjectProps) {
+  if (object.isPicked) return null; // Don't render if picked up
+
+  // position.y is the centre, computed from what the object rests on (see placement.ts)
+  const q = object.orientation;
+  return (
+    <group
+      position={[object.position.x, object.position.y, object.position.z]}
+      quaternion={q ? [q.x, q.y, q.z, q.w] : [0, 0, 0, 1]}
+    >
+      <ObjectMesh object={object} />
     </group>
   );
 }
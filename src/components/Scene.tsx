@@ -1,17 +1,59 @@
-import { useEffect, useRef } from "react";
-import { Canvas } from "@react-three/fiber";
+import { Suspense, useEffect, useRef } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
 import { OrbitControls } from "@react-three/drei";
-import Humanoid from "./Humanoid";
+import { CuboidCollider, Physics, RigidBody } from "@react-three/rapier";
+import Humanoid, { type HeldItem } from "./Humanoid";
+import PhysicsHumanoid from "./PhysicsHumanoid";
+import PhysicsObject from "./PhysicsObject";
 import PickableObjectComponent from "./PickableObject";
-import type { Robot, PickableObject } from "../lib/types";
+import type { Robot, PickableObject, Quaternion, Vector3 } from "../lib/types";
+import { simulationClock, type SimulationClock } from "../lib/simulationClock";
+import { gripOf, handsOf, heldObjectIds } from "../lib/hands";
+import { handPosition } from "../lib/forwardKinematics";
 
 interface SceneProps {
   robots: Robot[];
   objects: PickableObject[];
-  usePhysics?: boolean;
+  usePhysics?: boolean; // Joint-motor robots (PhysicsHumanoid) instead of posed ones (Humanoid)
+  clock?: SimulationClock;
+  onObjectSettled?: (id: string, position: Vector3, orientation: Quaternion) => void; // Physics mode: where an object came to rest
 }
 
-export default function Scene({ robots, objects, usePhysics = true }: SceneProps) {
+const PHYSICS_TIMESTEP = 1 / 120; // Small enough for the joint PD gains to stay stable
+
+// What a robot holds, with the hand(s) holding each object
+function heldItems(robot: Robot, objects: PickableObject[]): HeldItem[] {
+  return heldObjectIds(robot).flatMap((id): HeldItem[] => {
+    const object = objects.find((obj) => obj.id === id);
+    const grip = gripOf(robot, id);
+    return object && grip ? [{ object, grip }] : [];
+  });
+}
+
+// Centre of the hand(s) holding `objectId`, if any robot holds it
+function holdPoint(robots: Robot[], objectId: string): Vector3 | undefined {
+  for (const robot of robots) {
+    const grip = gripOf(robot, objectId);
+    if (!grip) continue;
+    const hands = handsOf(grip).map((side) => handPosition(robot, side));
+    return {
+      x: hands.reduce((sum, hand) => sum + hand.x, 0) / hands.length,
+      y: hands.reduce((sum, hand) => sum + hand.y, 0) / hands.length,
+      z: hands.reduce((sum, hand) => sum + hand.z, 0) / hands.length,
+    };
+  }
+  return undefined;
+}
+
+// Advances the simulation clock from the render loop (frame delta in seconds)
+function ClockDriver({ clock }: { clock: SimulationClock }) {
+  useFrame((_, delta) => {
+    clock.advance(delta * 1000);
+  });
+  return null;
+}
+
+export default function Scene({ robots, objects, usePhysics = false, clock = simulationClock, onObjectSettled }: SceneProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
 
@@ -67,6 +109,8 @@ export default function Scene({ robots, objects, usePhysics = true }: SceneProps
       performance={{ min: 0.5 }}
       frameloop="always" // Keep animations running
     >
+      <ClockDriver clock={clock} />
+
       {/* Natural white lighting for Tesla Optimus aesthetic */}
       <ambientLight intensity={0.6} />
       <directionalLight
@@ -85,16 +129,31 @@ export default function Scene({ robots, objects, usePhysics = true }: SceneProps
       {/* Light fog for depth */}
       <fog attach="fog" args={["#d1d5db", 10, 30]} />
 
-      {robots.map((robot) => {
-        const heldObject = robot.holdingObjectId
-          ? objects.find((obj) => obj.id === robot.holdingObjectId)
-          : undefined;
-        return <Humanoid key={robot.id} robot={robot} heldObject={heldObject} />;
-      })}
-
-      {objects.map((obj) => (
-        <PickableObjectComponent key={obj.id} object={obj} />
-      ))}
+      {usePhysics ? (
+        <Suspense fallback={null}>
+          <Physics timeStep={PHYSICS_TIMESTEP}>
+            {robots.map((robot) => (
+              <PhysicsHumanoid key={robot.id} robot={robot} held={heldItems(robot, objects)} />
+            ))}
+            {objects.map((obj) => (
+              <PhysicsObject key={obj.id} object={obj} holdPoint={holdPoint(robots, obj.id)} onSettled={onObjectSettled} />
+            ))}
+            {/* Ground the feet stand on */}
+            <RigidBody type="fixed" colliders={false}>
+              <CuboidCollider args={[15, 0.1, 15]} position={[0, -2.1, 0]} />
+            </RigidBody>
+          </Physics>
+        </Suspense>
+      ) : (
+        <>
+          {robots.map((robot) => (
+            <Humanoid key={robot.id} robot={robot} held={heldItems(robot, objects)} />
+          ))}
+          {objects.map((obj) => (
+            <PickableObjectComponent key={obj.id} object={obj} />
+          ))}
+        </>
+      )}
 
       {/* Ground plane with clean white/gray material */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2, 0]} receiveShadow>
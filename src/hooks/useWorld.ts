@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import type { World, WorldState } from "../lib/world";
+
+// Subscribe a component to a World; re-renders on every state change
+export function useWorld(world: World): WorldState {
+  return useSyncExternalStore(
+    (onChange) => world.subscribe(onChange),
+    () => world.getState()
+  );
+}
@@ -1,352 +1,783 @@
-import type { Robot, PickableObject, ActionPlan, ActionStep, FullPose, Vector3 } from "./types";
-import { MOTIONS, lerpPose, lerpVec3, ease, lerp } from "./motion";
+import type { Robot, PickableObject, ActionPlan, ActionStep, FullPose, HandJointAngles, Side } from "./types";
+import { MOTIONS, NEUTRAL_NECK, evaluateMotion, lerpHand, lerpNeck, lerpPose, lerpVec3, ease, lerp, type MotionSequence } from "./motion";
+import type { SimulationClock } from "./simulationClock";
+import { objectsAbove, objectsOnTop, restingY } from "./placement";
+import { FLIGHT_STEP, launchVelocity, releasePoint, simulateFlight } from "./projectile";
+import { grab, gripOf, handsOf, heldObjectIds, letGo } from "./hands";
+import { crouchFor, handTargets, lookAt, solveArm } from "./inverseKinematics";
+import { STANDING_Y, worldToLocal } from "./skeleton";
+import { checkPose } from "./poseConstraints";
+import { GRASP_SHAPES, OPEN_HAND, graspShapeFor, handAngles, handKey } from "./grasp";
+import { getClip } from "./motionClips";
+
+// State access the executor needs. Reads must return the latest state
+// (not a render snapshot) so each step starts from where the previous one ended.
+export interface ExecutionContext {
+  clock: SimulationClock; // All step timing comes from simulated ticks
+  getRobot: (id: string) => Robot | undefined;
+  getObjects: () => PickableObject[];
+  setRobots: (fn: (prev: Robot[]) => Robot[]) => void;
+  setObjects: (fn: (prev: PickableObject[]) => PickableObject[]) => void;
+}
+
+// A running step. `update` receives elapsed simulated step time (clamped to duration);
+// instant steps apply their effect in `start` and then just wait out the duration.
+// `start` returns a reason string when the step cannot be carried out (the plan fails).
+interface StepTask {
+  duration: number;
+  start?: () => string | void;
+  update?: (elapsed: number) => void;
+}
 
-// Global interval tracker to prevent memory leaks
-const activeIntervals = new Set<NodeJS.Timeout>();
+// Every pose a step writes goes through checkPose(): clamped to the joint limits, and a
+// frame that would put a limb through the body is dropped (the robot keeps its last pose)
+function updateRobot(ctx: ExecutionContext, robotId: string, fn: (r: Robot) => Robot) {
+  ctx.setRobots((prevRobots) =>
+    prevRobots.map((r) => {
+      if (r.id !== robotId) return r;
+      const next = fn(r);
+      if (next.pose === r.pose) return next;
+      const check = checkPose(next.pose);
+      return { ...next, pose: check.collisions.length > 0 ? r.pose : check.pose };
+    })
+  );
+}
 
-function createManagedInterval(callback: () => void, ms: number): NodeJS.Timeout {
-  const id = setInterval(callback, ms);
-  activeIntervals.add(id);
-  return id;
+// Arms carrying whatever is in hand, one object per hand or one in both (idle with empty hands)
+function carryPose(robot: Robot, objects: PickableObject[]): FullPose {
+  const held = heldObjectIds(robot)
+    .map((id) => objects.find((obj) => obj.id === id))
+    .filter((obj): obj is PickableObject => obj !== undefined);
+  if (held.length === 0) return MOTIONS.idle();
+
+  // The lean counters the whole load
+  const mass = held.reduce((sum, obj) => sum + obj.mass, 0);
+  const [first, second] = held;
+  const pose = MOTIONS.holding(mass, gripOf(robot, first.id) ?? "right");
+  if (!second) return pose;
+
+  const secondGrip = gripOf(robot, second.id) === "left" ? "left" : "right";
+  const armKey = secondGrip === "left" ? "leftArm" : "rightArm";
+  return { ...pose, [armKey]: MOTIONS.holding(mass, secondGrip)[armKey] };
 }
 
-function clearManagedInterval(id: NodeJS.Timeout) {
-  clearInterval(id);
-  activeIntervals.delete(id);
+// `pose` with the fingers of `sides` moved from their shape in `from` towards `to`
+function shapeHands(pose: FullPose, sides: Side[], from: FullPose, to: HandJointAngles, t: number): FullPose {
+  const next = { ...pose };
+  sides.forEach((side) => {
+    next[handKey(side)] = lerpHand(handAngles(from, side), to, t);
+  });
+  return next;
 }
 
-// Cleanup all intervals (called on unmount or error)
-export function cleanupAllIntervals() {
-  activeIntervals.forEach(id => clearInterval(id));
-  activeIntervals.clear();
+// A whole-body motion frame that leaves the fingers of `current` as they are (a carried object stays gripped)
+function keepFingers(pose: FullPose, current: FullPose): FullPose {
+  return { ...pose, leftHand: current.leftHand, rightHand: current.rightHand };
 }
 
-// Execute a single action step
-export function executeActionStep(
-  step: ActionStep,
-  robot: Robot,
-  setRobots: (fn: (prev: Robot[]) => Robot[]) => void,
-  setObjects: (fn: (prev: PickableObject[]) => PickableObject[]) => void,
-  onComplete: () => void
-) {
+// Build the task for a single action step, starting from the robot's current state
+function createStepTask(step: ActionStep, robot: Robot, ctx: ExecutionContext): StepTask {
   const duration = step.duration || 500;
-  const startTime = Date.now();
 
   switch (step.type) {
     case "navigate": {
-      if (!step.targetPosition) {
-        onComplete();
-        return;
-      }
+      if (!step.targetPosition) return { duration: 0 };
 
       const startPos = { ...robot.position };
       const targetPos = { ...step.targetPosition };
       const targetRotation = step.targetRotation !== undefined ? step.targetRotation : robot.rotation;
+      const groundLevel = -0.35;
 
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeInOut(progress);
+      return {
+        duration,
+        update: (elapsed) => {
+          const progress = elapsed / duration;
 
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
+          if (progress >= 1) {
+            updateRobot(ctx, robot.id, (r) => ({ ...r, position: { ...targetPos, y: groundLevel } }));
+            return;
+          }
 
+          const easedProgress = ease.easeInOut(progress);
+          updateRobot(ctx, robot.id, (r) => {
             const newPos = lerpVec3(startPos, targetPos, easedProgress);
-            const steps = (elapsed / 600) % 1;
-            const groundLevel = -0.35;
-            newPos.y = groundLevel + Math.sin(steps * Math.PI * 2) * 0.03;
-
             const walkPhase = (elapsed / 600) % 1;
-            const walkPose = MOTIONS.walkCycle(walkPhase);
-
-            return { ...r, position: newPos, pose: walkPose, rotation: targetRotation };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          setRobots((prevRobots) =>
-            prevRobots.map((r) => {
-              if (r.id !== robot.id) return r;
-              return { ...r, position: { ...targetPos, y: -0.35 } };
-            })
-          );
-          onComplete();
-        }
-      }, 16);
-      break;
+            newPos.y = groundLevel + Math.sin(walkPhase * Math.PI * 2) * 0.03;
+
+            return { ...r, position: newPos, pose: keepFingers(MOTIONS.walkCycle(walkPhase), r.pose), rotation: targetRotation };
+          });
+        },
+      };
     }
 
+    // Turn on the spot; with something to look at (an object or a point), the head turns towards it first
     case "align": {
-      if (step.targetRotation === undefined) {
-        onComplete();
-        return;
-      }
+      if (step.targetRotation === undefined) return { duration: 0 };
 
       const startRotation = robot.rotation;
       const targetRotation = step.targetRotation;
-
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeInOut(progress);
-
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
-            const newRotation = startRotation + (targetRotation - startRotation) * easedProgress;
-            return { ...r, rotation: newRotation };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          onComplete();
-        }
-      }, 16);
-      break;
+      const startNeck = robot.pose.neck ?? NEUTRAL_NECK;
+
+      return {
+        duration,
+        update: (elapsed) => {
+          const easedProgress = ease.easeInOut(elapsed / duration);
+          const headProgress = ease.easeOut(Math.min((elapsed / duration) * 2, 1));
+          const object = step.objectId ? ctx.getObjects().find((obj) => obj.id === step.objectId) : undefined;
+          const lookTarget = object?.position ?? step.targetPosition;
+
+          updateRobot(ctx, robot.id, (r) => {
+            const turned = { ...r, rotation: startRotation + (targetRotation - startRotation) * easedProgress };
+            if (!lookTarget) return turned;
+            return { ...turned, pose: { ...r.pose, neck: lerpNeck(startNeck, lookAt(turned, lookTarget), headProgress) } };
+          });
+        },
+      };
     }
 
+    // Down far enough for the hands to reach the object (leg IK), or a fixed squat without one
     case "squat": {
       const startPose = robot.pose;
-      const prepPose = MOTIONS.squatPrep();
-      const squatPose = MOTIONS.squat();
-      const groundLevel = -0.35;
+      const prepPose = keepFingers(MOTIONS.squatPrep(), robot.pose);
+      let squatPose = MOTIONS.squat();
+      let squatY = STANDING_Y - 0.4;
+      const object = ctx.getObjects().find((obj) => obj.id === step.objectId);
+      if (object && squatPose.torso) {
+        const crouch = crouchFor(robot, handTargets(object, robot, step.grip ?? "right"), squatPose.torso);
+        squatPose = {
+          ...squatPose,
+          leftLeg: { hip: crouch.leftLeg.hip, knee: crouch.leftLeg.knee },
+          rightLeg: { hip: crouch.rightLeg.hip, knee: crouch.rightLeg.knee },
+        };
+        squatY = crouch.y;
+      }
 
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeOutBack(progress);
-
-        let targetPose = squatPose;
-        let poseProgress = easedProgress;
-
-        if (progress < 0.3) {
-          targetPose = prepPose;
-          poseProgress = progress / 0.3;
-        } else {
-          poseProgress = (progress - 0.3) / 0.7;
-          targetPose = squatPose;
-        }
-
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
-
-            const fromPose = progress < 0.3 ? startPose : prepPose;
-            const newPose = lerpPose(fromPose, targetPose, poseProgress);
-            const newPos = { ...r.position };
-            newPos.y = groundLevel - easedProgress * 0.4;
-
-            return { ...r, pose: newPose, position: newPos };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          onComplete();
-        }
-      }, 16);
-      break;
+      return {
+        duration,
+        update: (elapsed) => {
+          const progress = elapsed / duration;
+          const easedProgress = ease.easeOutBack(progress);
+
+          // First 30%: settle into the prep pose, then sink into the squat
+          const isPrep = progress < 0.3;
+          const fromPose = isPrep ? startPose : prepPose;
+          const targetPose = isPrep ? prepPose : squatPose;
+          const poseProgress = isPrep ? progress / 0.3 : (progress - 0.3) / 0.7;
+
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: lerpPose(fromPose, targetPose, poseProgress),
+            position: { ...r.position, y: STANDING_Y + (squatY - STANDING_Y) * easedProgress },
+          }));
+        },
+      };
     }
 
     case "reach": {
       const startPose = robot.pose;
-      const reachPose = MOTIONS.reachDown();
-
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeOut(progress);
-
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
-
-            const shoulderProgress = Math.min(easedProgress * 1.3, 1);
-            const elbowProgress = Math.max(0, easedProgress - 0.15);
-
-            const newPose: FullPose = {
-              torso: startPose.torso,
-              leftArm: {
-                shoulder: {
-                  pitch: startPose.leftArm.shoulder.pitch + (reachPose.leftArm.shoulder.pitch - startPose.leftArm.shoulder.pitch) * shoulderProgress,
-                  roll: startPose.leftArm.shoulder.roll || 0
-                },
-                elbow: { flex: startPose.leftArm.elbow.flex + (reachPose.leftArm.elbow.flex - startPose.leftArm.elbow.flex) * elbowProgress },
+      const grip = step.grip ?? "right";
+      // Arm IK onto the object from where the squat left the body; an arm already carrying something stays as it is
+      const reachPose = MOTIONS.reachDown(grip);
+      const object = ctx.getObjects().find((obj) => obj.id === step.objectId);
+      if (object) {
+        const targets = handTargets(object, robot, grip);
+        (Object.keys(targets) as Side[]).forEach((side) => {
+          const target = targets[side];
+          if (!target) return;
+          const arm = solveArm(side, worldToLocal(target, robot.position, robot.rotation), startPose.torso);
+          reachPose[`${side}Arm`] = { shoulder: arm.shoulder, elbow: arm.elbow };
+        });
+      }
+      (["left", "right"] as const).forEach((side) => {
+        if (robot.hands[side] && !handsOf(grip).includes(side)) reachPose[`${side}Arm`] = startPose[`${side}Arm`];
+      });
+
+      return {
+        duration,
+        update: (elapsed) => {
+          const easedProgress = ease.easeOut(elapsed / duration);
+          const shoulderProgress = Math.min(easedProgress * 1.3, 1);
+          const elbowProgress = Math.max(0, easedProgress - 0.15);
+
+          const newPose: FullPose = {
+            torso: startPose.torso,
+            leftArm: {
+              shoulder: {
+                pitch: startPose.leftArm.shoulder.pitch + (reachPose.leftArm.shoulder.pitch - startPose.leftArm.shoulder.pitch) * shoulderProgress,
+                roll: lerp(startPose.leftArm.shoulder.roll || 0, reachPose.leftArm.shoulder.roll || 0, shoulderProgress)
               },
-              rightArm: {
-                shoulder: {
-                  pitch: startPose.rightArm.shoulder.pitch + (reachPose.rightArm.shoulder.pitch - startPose.rightArm.shoulder.pitch) * shoulderProgress,
-                  roll: startPose.rightArm.shoulder.roll || 0
-                },
-                elbow: { flex: startPose.rightArm.elbow.flex + (reachPose.rightArm.elbow.flex - startPose.rightArm.elbow.flex) * elbowProgress },
+              elbow: { flex: startPose.leftArm.elbow.flex + (reachPose.leftArm.elbow.flex - startPose.leftArm.elbow.flex) * elbowProgress },
+            },
+            rightArm: {
+              shoulder: {
+                pitch: startPose.rightArm.shoulder.pitch + (reachPose.rightArm.shoulder.pitch - startPose.rightArm.shoulder.pitch) * shoulderProgress,
+                roll: lerp(startPose.rightArm.shoulder.roll || 0, reachPose.rightArm.shoulder.roll || 0, shoulderProgress)
               },
-              leftLeg: startPose.leftLeg,
-              rightLeg: startPose.rightLeg,
-            };
-
-            return { ...r, pose: newPose };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          onComplete();
-        }
-      }, 16);
-      break;
+              elbow: { flex: startPose.rightArm.elbow.flex + (reachPose.rightArm.elbow.flex - startPose.rightArm.elbow.flex) * elbowProgress },
+            },
+            leftLeg: startPose.leftLeg,
+            rightLeg: startPose.rightLeg,
+            leftHand: startPose.leftHand,
+            rightHand: startPose.rightHand,
+          };
+
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: newPose }));
+        },
+      };
     }
 
     case "grasp": {
-      if (!step.objectId) {
-        onComplete();
-        return;
-      }
-
-      setObjects((prevObjects) =>
-        prevObjects.map((obj) =>
-          obj.id === step.objectId ? { ...obj, isPicked: true } : obj
-        )
-      );
+      const objectId = step.objectId;
+      const grip = step.grip ?? "right";
+      if (!objectId) return { duration: 0 };
+      const startPose = robot.pose;
+      const object = ctx.getObjects().find((obj) => obj.id === objectId);
+      const closed = object ? GRASP_SHAPES[graspShapeFor(object)] : OPEN_HAND;
+
+      return {
+        duration,
+        start: () => {
+          // Another robot may have grabbed it while this one was walking over
+          const target = ctx.getObjects().find((obj) => obj.id === objectId);
+          if (!target) return `Object ${objectId} no longer exists`;
+          if (target.isPicked) return `${target.name} was already picked up`;
+          const onTop = objectsOnTop(target, ctx.getObjects());
+          if (onTop.length > 0) return `${onTop[0].name} is on top of ${target.name}`;
+          const r = ctx.getRobot(robot.id);
+          const busy = r ? handsOf(grip).find((side) => r.hands[side] !== null) : undefined;
+          if (busy) return `${robot.name}'s ${busy} hand is full`;
+
+          ctx.setObjects((prevObjects) =>
+            prevObjects.map((obj) => (obj.id === objectId ? { ...obj, isPicked: true, restingOn: null, orientation: undefined } : obj))
+          );
+          updateRobot(ctx, robot.id, (rb) => ({ ...rb, hands: grab(rb.hands, grip, objectId) }));
+        },
+        // Fingers close around it in the shape that suits it
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: shapeHands(r.pose, handsOf(grip), startPose, closed, ease.easeOut(elapsed / duration)) }));
+        },
+      };
+    }
 
-      setRobots((prevRobots) =>
-        prevRobots.map((r) =>
-          r.id === robot.id ? { ...r, holdingObjectId: step.objectId! } : r
-        )
-      );
+    case "lift": {
+      const startPose = robot.pose;
+      const startY = robot.position.y;
+      const holdPose = carryPose(robot, ctx.getObjects());
+      const currentTorso = startPose.torso || { pitch: 55, roll: 0 };
+      const targetTorso = holdPose.torso || { pitch: -3, roll: 0 };
+
+      return {
+        duration,
+        update: (elapsed) => {
+          const easedProgress = ease.easeOut(elapsed / duration);
+          // Straighten the back only after the legs have done most of the lifting
+          const torsoStraightenPhase = Math.max(0, (easedProgress - 0.4) / 0.6);
+
+          const newPose = lerpPose(startPose, holdPose, easedProgress);
+          if (newPose.torso) {
+            newPose.torso.pitch = lerp(currentTorso.pitch, targetTorso.pitch, torsoStraightenPhase);
+          }
+
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: newPose,
+            position: { ...r.position, y: lerp(startY, STANDING_Y, easedProgress) },
+          }));
+        },
+      };
+    }
 
-      setTimeout(onComplete, duration);
-      break;
+    case "drop": {
+      const startPose = robot.pose;
+      let opening: Side[] = []; // Hands letting go, known once the step starts
+
+      return {
+        duration,
+        start: () => {
+          const r = ctx.getRobot(robot.id);
+          const heldId = step.objectId ?? (r ? heldObjectIds(r)[0] : undefined);
+          if (!r || !heldId) return;
+          const grip = gripOf(r, heldId);
+          opening = grip ? handsOf(grip) : [];
+
+          // At the robot's feet unless the plan spreads several objects apart
+          const spot = step.targetPosition ?? r.position;
+          ctx.setObjects((prevObjects) =>
+            prevObjects.map((obj) =>
+              obj.id === heldId
+                ? { ...obj, isPicked: false, restingOn: null, position: { x: spot.x, y: restingY(obj), z: spot.z } }
+                : obj
+            )
+          );
+          updateRobot(ctx, robot.id, (rb) => ({ ...rb, hands: letGo(rb.hands, heldId) }));
+        },
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: shapeHands(r.pose, opening, startPose, OPEN_HAND, ease.easeOut(elapsed / duration)) }));
+        },
+      };
     }
 
-    case "lift": {
+    case "place": {
+      const target = step.targetPosition;
+      if (!target) return { duration: 0 };
       const startPose = robot.pose;
-      const groundLevel = -0.35;
+      let opening: Side[] = [];
+
+      return {
+        duration,
+        start: () => {
+          const r = ctx.getRobot(robot.id);
+          const heldId = step.objectId ?? (r ? heldObjectIds(r)[0] : undefined);
+          const grip = r && heldId ? gripOf(r, heldId) : null;
+          if (!heldId || !grip) return `${robot.name} is not holding anything to place`;
+          opening = handsOf(grip);
+
+          // Stacking: the support's top is read now, it may have moved since planning
+          const objects = ctx.getObjects();
+          const support = step.supportObjectId ? objects.find((obj) => obj.id === step.supportObjectId) : undefined;
+          if (step.supportObjectId) {
+            if (!support || support.isPicked) return `${support?.name ?? step.supportObjectId} is no longer there to stack on`;
+            const onTop = objectsOnTop(support, objects);
+            if (onTop.length > 0) return `${onTop[0].name} is already on top of ${support.name}`;
+          }
+
+          ctx.setObjects((prevObjects) =>
+            prevObjects.map((obj) => {
+              if (obj.id !== heldId) return obj;
+              const position = support
+                ? { x: support.position.x, y: restingY(obj, support), z: support.position.z }
+                : { x: target.x, y: restingY(obj), z: target.z };
+              return { ...obj, isPicked: false, restingOn: support?.id ?? null, position };
+            })
+          );
+          updateRobot(ctx, robot.id, (rb) => ({ ...rb, hands: letGo(rb.hands, heldId) }));
+        },
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: shapeHands(r.pose, opening, startPose, OPEN_HAND, ease.easeOut(elapsed / duration)) }));
+        },
+      };
+    }
 
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeOut(progress);
-
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
-
-            let objectWeight = 0.3;
-            setObjects((prevObjects) => {
-              const heldObj = prevObjects.find(obj => obj.id === r.holdingObjectId);
-              if (heldObj) objectWeight = heldObj.size;
-              return prevObjects;
-            });
-
-            const holdPose = MOTIONS.holding(objectWeight);
-            const torsoStraightenPhase = Math.max(0, (easedProgress - 0.4) / 0.6);
-            const currentTorso = startPose.torso || { pitch: 55, roll: 0 };
-            const targetTorso = holdPose.torso || { pitch: -3, roll: 0 };
-
-            const newPose = lerpPose(startPose, holdPose, easedProgress);
-
-            if (newPose.torso) {
-              newPose.torso.pitch = lerp(currentTorso.pitch, targetTorso.pitch, torsoStraightenPhase);
-            }
-
-            const newPos = { ...r.position };
-            const squatY = groundLevel - 0.4;
-            newPos.y = squatY + easedProgress * 0.4;
-
-            return { ...r, pose: newPose, position: newPos };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          onComplete();
-        }
-      }, 16);
-      break;
+    case "windUp": {
+      const startPose = robot.pose;
+      const windUpPose = MOTIONS.windUp();
+
+      return {
+        duration,
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: lerpPose(startPose, windUpPose, ease.easeInOut(elapsed / duration)) }));
+        },
+      };
     }
 
-    case "drop": {
-      setRobots((prevRobots) =>
-        prevRobots.map((r) => {
-          if (r.id !== robot.id) return r;
-          if (!r.holdingObjectId) return r;
+    case "release": {
+      const target = step.targetPosition;
+      const heldId = step.objectId ?? heldObjectIds(robot)[0];
+      const held = ctx.getObjects().find((obj) => obj.id === heldId && gripOf(robot, obj.id));
+      if (!target || !held) {
+        return { duration: 0, start: () => `${robot.name} is not holding anything to throw` };
+      }
 
-          setObjects((prevObjects) =>
+      // The flight is worked out up front from where the hand is now; the step lasts until it lands
+      const from = releasePoint(robot.position, robot.rotation);
+      const velocity = launchVelocity(from, target);
+      if (!velocity) {
+        return { duration: 0, start: () => `${held.name} can't be thrown that far` };
+      }
+      const flight = simulateFlight(held, from, velocity, ctx.getObjects());
+      const startPose = robot.pose;
+      const releasePose = MOTIONS.throwRelease();
+      const opening = handsOf(gripOf(robot, held.id) ?? "right");
+
+      return {
+        duration: Math.max(duration, flight.duration),
+        start: () => {
+          ctx.setObjects((prevObjects) =>
+            prevObjects.map((obj) => (obj.id === held.id ? { ...obj, isPicked: false, restingOn: null, position: from } : obj))
+          );
+          updateRobot(ctx, robot.id, (r) => ({ ...r, hands: letGo(r.hands, held.id) }));
+        },
+        update: (elapsed) => {
+          const progress = ease.easeOut(Math.min(elapsed / duration, 1));
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: shapeHands(lerpPose(startPose, releasePose, progress), opening, startPose, OPEN_HAND, progress),
+          }));
+
+          const landed = elapsed >= flight.duration;
+          const position = landed
+            ? flight.landing
+            : flight.path[Math.min(Math.floor(elapsed / (FLIGHT_STEP * 1000)), flight.path.length - 1)];
+          ctx.setObjects((prevObjects) =>
             prevObjects.map((obj) =>
-              obj.id === r.holdingObjectId
-                ? { ...obj, isPicked: false, position: { ...r.position, y: -1.5 } }
-                : obj
+              obj.id === held.id ? { ...obj, position: { ...position }, restingOn: landed ? flight.restingOn : null } : obj
             )
           );
+        },
+      };
+    }
+
+    // Back to the idle pose after a throw, still carrying anything left in the other hand (also ends a push)
+    case "followThrough": {
+      const startPose = robot.pose;
+      const idlePose = carryPose(robot, ctx.getObjects());
+
+      return {
+        duration,
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: lerpPose(startPose, idlePose, ease.easeInOut(elapsed / duration)) }));
+        },
+      };
+    }
+
+    case "brace": {
+      const startPose = robot.pose;
+      const bracePose = MOTIONS.pushing(0);
+
+      return {
+        duration,
+        update: (elapsed) => {
+          updateRobot(ctx, robot.id, (r) => ({ ...r, pose: lerpPose(startPose, bracePose, ease.easeInOut(elapsed / duration)) }));
+        },
+      };
+    }
 
-          return { ...r, holdingObjectId: null };
-        })
-      );
+    case "push": {
+      const objectId = step.objectId;
+      const target = step.targetPosition;
+      const pushed = ctx.getObjects().find((obj) => obj.id === objectId);
+      if (!objectId || !target || !pushed) {
+        return { duration: 0, start: () => `Object ${objectId} no longer exists` };
+      }
+
+      // The robot keeps its distance behind the object; anything stacked on it slides along
+      const delta = { x: target.x - pushed.position.x, z: target.z - pushed.position.z };
+      const startPos = { ...robot.position };
+      const moving = [pushed, ...objectsAbove(pushed, ctx.getObjects())];
+      const startPositions = new Map(moving.map((obj) => [obj.id, { ...obj.position }]));
+      const groundLevel = -0.35;
 
-      setTimeout(onComplete, duration);
-      break;
+      return {
+        duration,
+        start: () => {
+          const current = ctx.getObjects().find((obj) => obj.id === objectId);
+          if (!current || current.isPicked) return `${pushed.name} is no longer there to push`;
+        },
+        update: (elapsed) => {
+          const progress = elapsed / duration;
+          const walkPhase = (elapsed / 800) % 1;
+
+          ctx.setObjects((prevObjects) =>
+            prevObjects.map((obj) => {
+              const from = startPositions.get(obj.id);
+              return from
+                ? { ...obj, position: { x: from.x + delta.x * progress, y: from.y, z: from.z + delta.z * progress } }
+                : obj;
+            })
+          );
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: keepFingers(MOTIONS.pushing(progress >= 1 ? 0 : walkPhase), r.pose),
+            position: { x: startPos.x + delta.x * progress, y: groundLevel, z: startPos.z + delta.z * progress },
+          }));
+        },
+      };
     }
 
+    // Up from a drop or place; an object left in the other hand is still carried
     case "stand": {
       const startPose = robot.pose;
-      const idlePose = MOTIONS.idle();
-      const groundLevel = -0.4;
-
-      const interval = createManagedInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const easedProgress = ease.easeInOut(progress);
-
-        setRobots((prevRobots) =>
-          prevRobots.map((r) => {
-            if (r.id !== robot.id) return r;
-
-            const newPose = lerpPose(startPose, idlePose, easedProgress);
-            const newPos = { ...r.position };
-            const squatY = groundLevel - 0.4;
-            newPos.y = squatY + easedProgress * 0.4;
-
-            return { ...r, pose: newPose, position: newPos };
-          })
-        );
-
-        if (progress >= 1) {
-          clearManagedInterval(interval);
-          onComplete();
-        }
-      }, 16);
-      break;
+      const idlePose = carryPose(robot, ctx.getObjects());
+      const startY = robot.position.y;
+
+      return {
+        duration,
+        update: (elapsed) => {
+          const easedProgress = ease.easeInOut(elapsed / duration);
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: lerpPose(startPose, idlePose, easedProgress),
+            position: { ...r.position, y: lerp(startY, STANDING_Y, easedProgress) },
+          }));
+        },
+      };
+    }
+
+    case "wave": {
+      const armKey = step.side === "left" ? "leftArm" : "rightArm";
+      const swingMs = 300;
+
+      // Arm up / down / up, then back down once the step ends
+      return {
+        duration,
+        update: (elapsed) => {
+          const armUp = elapsed < duration && Math.floor(elapsed / swingMs) % 2 === 0;
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: {
+              ...r.pose,
+              [armKey]: { ...r.pose[armKey], shoulder: { ...r.pose[armKey].shoulder, pitch: armUp ? 90 : 0 } },
+            },
+          }));
+        },
+      };
+    }
+
+    case "clip": {
+      const clip = step.clipName ? getClip(step.clipName) : undefined;
+      if (!clip) {
+        return { duration: 0, start: () => `There is no motion clip called "${step.clipName}"` };
+      }
+
+      // Blend in from the current pose when the clip's first keyframe comes after time 0
+      const first = clip.keyframes[0];
+      const sequence: MotionSequence = {
+        ...clip,
+        duration,
+        keyframes: first.time > 0 ? [{ time: 0, pose: robot.pose }, ...clip.keyframes] : clip.keyframes,
+      };
+
+      return {
+        duration,
+        update: (elapsed) => {
+          // Hands the clip leaves unset keep their fingers, so a carried object stays gripped
+          const frame = evaluateMotion(sequence, elapsed).pose;
+          updateRobot(ctx, robot.id, (r) => ({
+            ...r,
+            pose: { ...frame, leftHand: frame.leftHand ?? r.pose.leftHand, rightHand: frame.rightHand ?? r.pose.rightHand },
+          }));
+        },
+      };
     }
 
     default:
-      onComplete();
+      return { duration: 0 };
   }
 }
 
-// Execute entire action plan sequentially
-export function executeActionPlan(
-  plan: ActionPlan,
-  robot: Robot,
-  setRobots: (fn: (prev: Robot[]) => Robot[]) => void,
-  setObjects: (fn: (prev: PickableObject[]) => PickableObject[]) => void,
-  onComplete: () => void
-) {
-  let currentStepIndex = 0;
-
-  const executeNext = () => {
-    if (currentStepIndex >= plan.steps.length) {
-      onComplete();
+// ============================================
+// PLAN RUNNER
+// ============================================
+
+export type PlanRunnerStatus = "idle" | "running" | "paused" | "completed" | "cancelled" | "failed";
+
+export interface PlanRunResult {
+  planId: string;
+  robotId: string;
+  status: "completed" | "cancelled" | "failed";
+  completedSteps: number;
+  reason?: string; // Why a failed plan stopped
+}
+
+export interface PlanRunnerEvents {
+  stepStart: { index: number; step: ActionStep };
+  stepComplete: { index: number; step: ActionStep; skipped: boolean };
+  statusChange: { status: PlanRunnerStatus };
+}
+
+type Listener<T> = (payload: T) => void;
+
+// One runner per robot (per context): starting a plan preempts whatever that robot was doing
+const activeRunners = new Map<ExecutionContext, Map<string, PlanRunner>>();
+
+export function getActiveRunner(ctx: ExecutionContext, robotId: string): PlanRunner | undefined {
+  return activeRunners.get(ctx)?.get(robotId);
+}
+
+export function hasActivePlans(ctx: ExecutionContext): boolean {
+  return (activeRunners.get(ctx)?.size ?? 0) > 0;
+}
+
+// Cancel every robot's plan in a context, or everywhere (called on unmount or error)
+export function cancelAllPlans(ctx?: ExecutionContext) {
+  const contexts = ctx ? [ctx] : [...activeRunners.keys()];
+  contexts.forEach((c) => {
+    const runners = activeRunners.get(c);
+    if (runners) [...runners.values()].forEach((runner) => runner.cancel());
+  });
+}
+
+/**
+ * Runs an ActionPlan step by step for one robot.
+ *
+ * Subscribes to the simulation clock for its robot. Elapsed time only accumulates
+ * while running, so pause/resume continues a step exactly where it stopped, and
+ * the same plan always yields the same poses for the same tick sequence.
+ */
+export class PlanRunner {
+  readonly plan: ActionPlan;
+  readonly robotId: string;
+  readonly done: Promise<PlanRunResult>;
+
+  private readonly ctx: ExecutionContext;
+  private status: PlanRunnerStatus = "idle";
+  private stepIndex = -1;
+  private task: StepTask | null = null;
+  private stepElapsed = 0;
+  private reason: string | undefined;
+  private unsubscribeClock: (() => void) | null = null;
+  private listeners: { [K in keyof PlanRunnerEvents]: Set<Listener<PlanRunnerEvents[K]>> } = {
+    stepStart: new Set(),
+    stepComplete: new Set(),
+    statusChange: new Set(),
+  };
+  private resolveDone!: (result: PlanRunResult) => void;
+
+  constructor(plan: ActionPlan, robotId: string, ctx: ExecutionContext) {
+    this.plan = plan;
+    this.robotId = robotId;
+    this.ctx = ctx;
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  get currentStatus(): PlanRunnerStatus {
+    return this.status;
+  }
+
+  get currentStepIndex(): number {
+    return this.stepIndex;
+  }
+
+  get isFinished(): boolean {
+    return this.status === "completed" || this.status === "cancelled" || this.status === "failed";
+  }
+
+  // Why the plan failed (only set once status is "failed")
+  get failureReason(): string | undefined {
+    return this.reason;
+  }
+
+  on<K extends keyof PlanRunnerEvents>(event: K, listener: Listener<PlanRunnerEvents[K]>): () => void {
+    const set = this.listeners[event];
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  start(): Promise<PlanRunResult> {
+    if (this.status !== "idle") return this.done;
+
+    getActiveRunner(this.ctx, this.robotId)?.cancel();
+    let runners = activeRunners.get(this.ctx);
+    if (!runners) {
+      runners = new Map();
+      activeRunners.set(this.ctx, runners);
+    }
+    runners.set(this.robotId, this);
+
+    this.setStatus("running");
+    this.subscribeClock();
+    this.beginStep(0);
+    return this.done;
+  }
+
+  pause() {
+    if (this.status !== "running") return;
+    this.unsubscribe();
+    this.setStatus("paused");
+  }
+
+  resume() {
+    if (this.status !== "paused") return;
+    this.setStatus("running");
+    this.subscribeClock();
+  }
+
+  // Stop where the robot is; the current step is abandoned mid-motion
+  cancel() {
+    if (this.isFinished) return;
+    this.finish("cancelled");
+  }
+
+  // Jump the current step to its end state and move on to the next one
+  skipStep() {
+    if (!this.task || (this.status !== "running" && this.status !== "paused")) return;
+    this.task.update?.(this.task.duration);
+    this.completeStep(true);
+  }
+
+  private beginStep(index: number) {
+    if (index >= this.plan.steps.length) {
+      this.finish("completed");
       return;
     }
 
-    const step = plan.steps[currentStepIndex];
-    currentStepIndex++;
+    const robot = this.ctx.getRobot(this.robotId);
+    if (!robot) {
+      this.finish("cancelled");
+      return;
+    }
 
-    executeActionStep(step, robot, setRobots, setObjects, executeNext);
-  };
+    const step = this.plan.steps[index];
+    this.stepIndex = index;
+    this.stepElapsed = 0;
+    this.task = createStepTask(step, robot, this.ctx);
+    this.emit("stepStart", { index, step });
+    const failure = this.task.start?.();
+    if (failure) {
+      this.finish("failed", failure);
+      return;
+    }
+
+    if (this.task.duration <= 0) {
+      this.completeStep(false);
+    }
+  }
+
+  private completeStep(skipped: boolean) {
+    const index = this.stepIndex;
+    this.task = null;
+    this.emit("stepComplete", { index, step: this.plan.steps[index], skipped });
+    if (this.status === "running" || this.status === "paused") {
+      this.beginStep(index + 1);
+    }
+  }
+
+  private tick(dtMs: number) {
+    if (!this.task) return;
 
-  executeNext();
+    this.stepElapsed += dtMs;
+    const elapsed = Math.min(this.stepElapsed, this.task.duration);
+    this.task.update?.(elapsed);
+
+    if (elapsed >= this.task.duration) {
+      this.completeStep(false);
+    }
+  }
+
+  private subscribeClock() {
+    this.unsubscribeClock = this.ctx.clock.onTick((dtMs) => this.tick(dtMs));
+  }
+
+  private unsubscribe() {
+    this.unsubscribeClock?.();
+    this.unsubscribeClock = null;
+  }
+
+  private finish(status: "completed" | "cancelled" | "failed", reason?: string) {
+    this.unsubscribe();
+    this.task = null;
+    this.reason = reason;
+    const runners = activeRunners.get(this.ctx);
+    if (runners?.get(this.robotId) === this) {
+      runners.delete(this.robotId);
+      if (runners.size === 0) activeRunners.delete(this.ctx);
+    }
+    this.setStatus(status);
+
+    const completedSteps = status === "completed" ? this.plan.steps.length : Math.max(0, this.stepIndex);
+    this.resolveDone({ planId: this.plan.id, robotId: this.robotId, status, completedSteps, reason });
+  }
+
+  private setStatus(status: PlanRunnerStatus) {
+    this.status = status;
+    this.emit("statusChange", { status });
+  }
+
+  private emit<K extends keyof PlanRunnerEvents>(event: K, payload: PlanRunnerEvents[K]) {
+    this.listeners[event].forEach((listener) => listener(payload));
+  }
 }
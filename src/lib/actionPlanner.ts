@@ -11,12 +11,27 @@
  *   → ActionPlan { steps: [navigate, align, squat, reach, grasp, lift] }
  *
  * 확장 방법:
- * 1. 새 액션 추가: createThrowPlan(), createPushPlan() 등의 함수 추가
- * 2. 새 오브젝트 색상: colorMap에 항목 추가
- * 3. 복잡한 플랜: 여러 단계를 조합 (예: 물건 쌓기 = pick + navigate + drop)
+ * 1. 새 액션 추가: createThrowPlan()처럼 create___Plan() 함수 추가 (예: createPushPlan())
+ * 2. 새 오브젝트 색상: COLOR_MAP에 항목 추가
+ * 3. 경로 계획: pathPlanner.ts (A*, 장애물 회피)
+ * 4. 복잡한 플랜: 여러 플랜을 조합 (예: createStackPlan = pick + place)
  */
 
-import type { Robot, PickableObject, ActionPlan, ActionStep, Vector3 } from "./types";
+import type { Robot, PickableObject, ActionPlan, ActionStep, Vector3, Side, Grip } from "./types";
+import { findPath, firstObstacleOnSegment, ROBOT_RADIUS, type Obstacle } from "./pathPlanner";
+import { footprintRadius, PLACEMENT_GAP } from "./placement";
+import { launchVelocity, releasePoint } from "./projectile";
+import { chooseGrip, grab } from "./hands";
+import { SKELETON } from "./skeleton";
+import type { MotionClip } from "./motionClips";
+
+// 플랜을 만들 수 없을 때 (예: 장애물에 막혀 길이 없음)
+export class PlanningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanningError";
+  }
+}
 
 // 두 3D 점 사이의 거리 계산 (피타고라스 정리)
 function distance(p1: Vector3, p2: Vector3): number {
@@ -33,135 +48,218 @@ function angleTo(from: Vector3, to: Vector3): number {
   return (Math.atan2(dx, -dz) * 180) / Math.PI;
 }
 
+// 웨이포인트마다 align + navigate 추가. 마지막 구간의 방향을 반환
+function addWalkSteps(steps: ActionStep[], start: Vector3, waypoints: Vector3[]): number {
+  let from = start;
+  let rotation = 0;
+  waypoints.forEach((waypoint, i) => {
+    rotation = angleTo(from, waypoint);
+
+    // 먼저 웨이포인트를 향해 회전 (사람처럼!)
+    steps.push({
+      type: "align",
+      targetRotation: rotation,
+      duration: i === 0 ? 400 : 300,  // 회전 시간
+    });
+
+    // 앞으로 걸어가기
+    steps.push({
+      type: "navigate",
+      targetPosition: waypoint,
+      targetRotation: rotation, // 걸어가는 동안 방향 유지
+      duration: distance(from, waypoint) * 500, // 거리 1 unit당 500ms
+    });
+
+    from = waypoint;
+  });
+  return rotation;
+}
+
+// ✅ 여기에 새 색상 추가! (예: "주황": ["orange", "#f97316"])
+const COLOR_MAP: { [key: string]: string[] } = {
+  "빨간": ["red", "#ef4444"],
+  "red": ["red", "#ef4444"],
+  "파란": ["blue", "#3b82f6"],
+  "blue": ["blue", "#3b82f6"],
+  "초록": ["green", "#10b981"],
+  "green": ["green", "#10b981"],
+  "노란": ["yellow", "#fbbf24"],
+  "yellow": ["yellow", "#fbbf24"],
+  "보라": ["purple", "#a855f7"],
+  "purple": ["purple", "#a855f7"],
+};
+
+// ✅ 새 형태 추가 시 여기에 키워드 추가
+const SHAPE_MAP: { [key: string]: PickableObject["type"] } = {
+  "상자": "box",
+  "박스": "box",
+  "box": "box",
+  "cube": "box",
+  "공": "sphere",
+  "ball": "sphere",
+  "sphere": "sphere",
+  "실린더": "cylinder",
+  "원기둥": "cylinder",
+  "cylinder": "cylinder",
+};
+
+/**
+ * 설명에 맞는 오브젝트 후보 전부 찾기 (이미 집힌 건 제외)
+ *
+ * 색상과 형태를 둘 다 말하면 둘 다 맞아야 함:
+ *   "box"     → [red box, yellow cube]  (여러 개 → 되묻기)
+ *   "red box" → [red box]
+ *   "orange"  → []                      (없음 → 되묻기)
+ */
+export function findObjectCandidates(
+  objects: PickableObject[],
+  description: string
+): PickableObject[] {
+  const desc = description.toLowerCase().trim();
+  const free = objects.filter((obj) => !obj.isPicked);
+
+  // 1단계: 정확한 이름 (예: "red box", "blue ball")
+  const exact = free.filter((obj) => obj.name.toLowerCase() === desc);
+  if (exact.length > 0) return exact;
+
+  // 2단계: 색상 + 형태 키워드
+  const colors = Object.entries(COLOR_MAP)
+    .filter(([keyword]) => desc.includes(keyword))
+    .flatMap(([, values]) => values);
+  const types = Object.entries(SHAPE_MAP)
+    .filter(([keyword]) => desc.includes(keyword))
+    .map(([, type]) => type);
+
+  if (colors.length > 0 || types.length > 0) {
+    return free.filter((obj) =>
+      (colors.length === 0 || colors.some((c) => obj.color.includes(c) || obj.name.includes(c))) &&
+      (types.length === 0 || types.includes(obj.type))
+    );
+  }
+
+  // 3단계: 이름 일부
+  return free.filter((obj) => obj.name.toLowerCase().includes(desc));
+}
+
 /**
  * 색상, 이름, 형태로 오브젝트 찾기
  *
  * @param objects - 씬의 모든 오브젝트
  * @param description - 검색어 (예: "빨간색", "red", "box")
- * @returns 찾은 오브젝트 또는 null
- *
- * 확장 예시:
- * - 거리순 정렬 추가
- * - 크기로 필터링
- * - 여러 개 찾아서 배열로 반환
+ * @returns 찾은 오브젝트 (후보가 여러 개면 첫 번째) 또는 null
  */
 export function findObjectByDescription(
   objects: PickableObject[],
   description: string
 ): PickableObject | null {
-  const desc = description.toLowerCase();
-
-  // 1단계: 이름으로 찾기 (예: "red box", "blue ball")
-  let found = objects.find((obj) => !obj.isPicked && obj.name.toLowerCase().includes(desc));
-  if (found) return found;
-
-  // 2단계: 색상 키워드로 찾기
-  // ✅ 여기에 새 색상 추가! (예: "노란": ["yellow", "#fbbf24"])
-  const colorMap: { [key: string]: string[] } = {
-    "빨간": ["red", "#ef4444"],
-    "red": ["red", "#ef4444"],
-    "파란": ["blue", "#3b82f6"],
-    "blue": ["blue", "#3b82f6"],
-    "초록": ["green", "#10b981"],
-    "green": ["green", "#10b981"],
-  };
-
-  for (const [keyword, colors] of Object.entries(colorMap)) {
-    if (desc.includes(keyword)) {
-      found = objects.find((obj) => !obj.isPicked && colors.some((c) => obj.color.includes(c) || obj.name.includes(c)));
-      if (found) return found;
-    }
-  }
+  return findObjectCandidates(objects, description)[0] ?? null;
+}
 
-  // 3단계: 형태로 찾기
-  // ✅ 새 형태 추가 시 여기에 케이스 추가
-  if (desc.includes("상자") || desc.includes("box") || desc.includes("cube")) {
-    found = objects.find((obj) => !obj.isPicked && obj.type === "box");
-    if (found) return found;
-  }
-  if (desc.includes("공") || desc.includes("ball") || desc.includes("sphere")) {
-    found = objects.find((obj) => !obj.isPicked && obj.type === "sphere");
-    if (found) return found;
-  }
-  if (desc.includes("실린더") || desc.includes("cylinder")) {
-    found = objects.find((obj) => !obj.isPicked && obj.type === "cylinder");
-    if (found) return found;
-  }
+const PICK_CLEARANCE = 0.2; // 물건 가장자리와 로봇 중심 사이 간격
 
-  return null;  // 못 찾음
+/**
+ * 물건을 집을 때 설 자리와 방향
+ *
+ * 다가오는 방향으로 물건 앞 PICK_CLEARANCE만큼 떨어져 섬.
+ * 한 손으로 잡으면 물건이 그 손의 어깨 앞에 오도록 반대쪽으로 비켜 섬 (양손은 정면).
+ */
+function pickStance(robot: Robot, object: PickableObject, grip: Grip): { position: Vector3; rotation: number } {
+  const dx = object.position.x - robot.position.x;
+  const dz = object.position.z - robot.position.z;
+  const length = Math.hypot(dx, dz);
+  const rad = (robot.rotation * Math.PI) / 180;
+  // 이미 물건 위에 서 있으면 지금 보는 방향으로
+  const forward = length > 1e-6 ? { x: dx / length, z: dz / length } : { x: Math.sin(rad), z: -Math.cos(rad) };
+  const right = { x: -forward.z, z: forward.x };
+  const back = footprintRadius(object) + PICK_CLEARANCE;
+  const aside = grip === "right" ? -SKELETON.shoulder.x : grip === "left" ? SKELETON.shoulder.x : 0;
+  return {
+    position: {
+      x: object.position.x - forward.x * back + right.x * aside,
+      y: robot.position.y,
+      z: object.position.z - forward.z * back + right.z * aside,
+    },
+    rotation: (Math.atan2(forward.x, -forward.z) * 180) / Math.PI,
+  };
 }
 
 /**
  * "줍기" 액션 플랜 생성
  *
  * 단계:
- * 1. navigate: 물건까지 걸어가기 (0.5 unit 이상 떨어져있을 때만)
+ * 1. align + navigate: 물건 앞 설 자리까지 걸어가기 (0.25 unit 이상 떨어져있을 때만, pickStance())
+ *    장애물(다른 물건/로봇)이 있으면 A* 경로의 웨이포인트마다 align + navigate 반복
  * 2. align: 물건 쪽으로 몸 돌리기
- * 3. squat: 무릎 굽혀 앉기 + 상체 내리기
- * 4. reach: 팔 뻗어서 손 내리기
- * 5. grasp: 물건 잡기 (holdingObjectId 설정, isPicked = true)
+ * 3. squat: 손이 물건에 닿을 높이까지 앉기 + 상체 내리기 (다리 IK, inverseKinematics.ts)
+ * 4. reach: 손을 물건 위에 뻗기 (팔 IK, 큰 물건은 양손으로 옆을 잡음)
+ * 5. grasp: 물건 잡기 (robot.hands에 기록, isPicked = true) + 손가락 오므리기 (원기둥은 감싸쥐기, 공은 구형 쥐기, 작은 상자는 집기)
  * 6. lift: 일어서기 + 상체 올리기
  *
+ * 어느 손으로 잡을지는 chooseGrip()이 정함 (hands.ts):
+ * - 큰 물건 (TWO_HAND_SIZE 이상): 양손 ("both"), 두 손이 다 비어 있어야 함
+ * - 작은 물건: 빈 손 하나 (오른손 먼저) → 작은 물건은 양손에 하나씩 두 개까지 들 수 있음
+ *
  * ✅ 확장 예시:
- * - 큰 물건은 양손으로: twoHandGrasp 단계 추가
  * - 높은 곳 물건: climb 단계 추가
- * - 멀리 있는 물건: 더 복잡한 pathfinding
+ *
+ * @param obstacles - 피해야 할 장애물 (sceneObstacles()로 생성, 목표 물건은 제외)
+ * @throws PlanningError - 장애물 때문에 갈 수 있는 길이 없거나, 잡을 손이 비어 있지 않을 때
  */
 export function createPickPlan(
   robot: Robot,
-  targetObject: PickableObject
+  targetObject: PickableObject,
+  obstacles: Obstacle[] = []
 ): ActionPlan {
   const groundLevel = -0.35; // 로봇의 바닥 높이 (발이 y=-2에 닿음)
-  const targetPos = { x: targetObject.position.x, y: groundLevel, z: targetObject.position.z };
-  const dist = distance(robot.position, targetPos);
-  const needsNavigation = dist > 0.5; // 0.5 unit 이상이면 걸어감
+  const grip = chooseGrip(robot, targetObject);
+  if (!grip) {
+    throw new PlanningError(`${robot.name} has no free hand for ${targetObject.name}`);
+  }
+  const stance = pickStance(robot, targetObject, grip);
+  const standAt = { ...stance.position, y: groundLevel };
+  const needsNavigation = distance({ ...robot.position, y: groundLevel }, standAt) > 0.25; // 0.25 unit 이상이면 걸어감
 
   const steps: ActionStep[] = [];
 
-  // 목표 방향 계산
-  const targetRotation = angleTo(robot.position, targetPos);
-
   if (needsNavigation) {
-    // 1단계: 먼저 목표를 향해 회전 (사람처럼!)
-    steps.push({
-      type: "align",
-      targetRotation,
-      duration: 400,  // 회전 시간
-    });
-
-    // 2단계: 앞으로 걸어가기
-    steps.push({
-      type: "navigate",
-      targetPosition: targetPos,
-      targetRotation, // 걸어가는 동안 방향 유지
-      duration: dist * 500, // 거리 1 unit당 500ms
-    });
+    const waypoints = findPath({ ...robot.position, y: groundLevel }, standAt, obstacles);
+    if (!waypoints) {
+      throw new PlanningError(`No collision-free path to ${targetObject.name}`);
+    }
+    addWalkSteps(steps, robot.position, waypoints);
   }
 
   // 3단계: 물건 정면으로 정확히 정렬 (미세 조정)
+  // 한 손으로 잡을 때는 물건이 정면이 아니라 그 손의 어깨 앞에 옴
   steps.push({
     type: "align",
-    targetRotation,
+    targetRotation: stance.rotation,
+    objectId: targetObject.id, // 고개를 물건 쪽으로 (lookAt)
     duration: 200,  // 빠른 미세 조정
   });
 
   // 3단계: 앉기 (무릎 굽히기 + 몸 낮추기)
   steps.push({
     type: "squat",
+    objectId: targetObject.id, // 손이 닿을 만큼만 앉음 (다리 IK)
+    grip,
     duration: 500,  // ✅ 더 천천히: 500 → 800
   });
 
   // 4단계: 팔 뻗기
   steps.push({
     type: "reach",
+    objectId: targetObject.id, // 손이 물건에 닿도록 (팔 IK)
+    grip,
     duration: 400,
   });
 
   // 5단계: 잡기
   steps.push({
     type: "grasp",
-    objectId: targetObject.id,
-    duration: 100,
+    objectId: targetObject.id, // 손가락이 물건 모양대로 오므라듦 (grasp.ts)
+    grip,
+    duration: 300,
   });
 
   // 6단계: 일어서기
@@ -183,14 +281,18 @@ export function createPickPlan(
  *
  * 단계:
  * 1. squat: 앉기
- * 2. drop: 물건 놓기 (holdingObjectId = null, isPicked = false)
+ * 2. drop: 물건 놓기 (손에서 놓음, isPicked = false) - 물건마다 하나씩
  * 3. stand: 일어서기
  *
+ * 하나면 발밑에, 양손에 하나씩 두 개면 좌우로 벌려서 놓음 (겹치지 않게)
+ *
  * ✅ 확장 예시:
- * - 특정 위치에 놓기: navigate 단계 먼저 추가
- * - 쌓기: place 단계에서 Y 좌표 계산
+ * - 특정 위치에 놓기: createPlacePlan() 사용
+ * - 쌓기: createStackPlan() 사용 (place 단계에서 Y 좌표 계산)
+ *
+ * @param objects - 내려놓을 물건 (들고 있는 것, 오른손 것 먼저)
  */
-export function createDropPlan(robot: Robot): ActionPlan {
+export function createDropPlan(robot: Robot, objects: PickableObject[]): ActionPlan {
   const steps: ActionStep[] = [];
 
   steps.push({
@@ -198,9 +300,20 @@ export function createDropPlan(robot: Robot): ActionPlan {
     duration: 500,
   });
 
-  steps.push({
-    type: "drop",
-    duration: 100,
+  // 오른쪽(+), 왼쪽(-)으로 반씩: 두 물건 반지름의 합 + 간격만큼 떨어짐
+  const rad = (robot.rotation * Math.PI) / 180;
+  const right = { x: Math.cos(rad), z: Math.sin(rad) };
+  const spread = objects.length > 1 ? (footprintRadius(objects[0]) + footprintRadius(objects[1]) + PLACEMENT_GAP) / 2 : 0;
+  objects.forEach((object, i) => {
+    const offset = i === 0 ? spread : -spread;
+    steps.push({
+      type: "drop",
+      objectId: object.id,
+      targetPosition: objects.length > 1
+        ? { x: robot.position.x + right.x * offset, y: object.position.y, z: robot.position.z + right.z * offset }
+        : undefined,
+      duration: 200, // 손을 펴는 동안
+    });
   });
 
   steps.push({
@@ -214,23 +327,268 @@ export function createDropPlan(robot: Robot): ActionPlan {
   };
 }
 
+// 놓을 때 몸에서 물건까지 거리 (쪼그려 앉아 팔 뻗는 거리)
+export const PLACE_REACH = 0.5;
+// 물건 표면과 로봇 사이 간격 (큰 물건 위에 놓거나 밀 때 팔 뻗는 거리)
+export const PUSH_STANDOFF = 0.1;
+
 /**
- * ✅ 새 액션 추가 예시: 던지기
- *
- * export function createThrowPlan(
- *   robot: Robot,
- *   targetPosition: Vector3
- * ): ActionPlan {
- *   const targetRotation = angleTo(robot.position, targetPosition);
- *
- *   return {
- *     id: `throw-${Date.now()}`,
- *     steps: [
- *       { type: "align", targetRotation, duration: 300 },
- *       { type: "windUp", duration: 500 },     // 새 액션 타입!
- *       { type: "release", duration: 200 },    // 새 액션 타입!
- *       { type: "followThrough", duration: 300 },
- *     ],
- *   };
- * }
+ * "특정 위치에 놓기" 액션 플랜 생성
+ *
+ * 단계:
+ * 1. align + navigate: 놓을 위치 앞(PLACE_REACH 만큼 떨어진 곳, 큰 물건 위라면 그 가장자리 앞)까지 걸어가기 (장애물 회피)
+ * 2. align: 놓을 위치 바라보기
+ * 3. squat: 앉기
+ * 4. place: 물건을 targetPosition에 놓기
+ * 5. stand: 일어서기
+ *
+ * @param object - 놓을 물건 (들고 있는 것 중 하나)
+ * @param targetPosition - 물건이 놓일 위치 (resolvePlacement()로 계산)
+ * @param support - 쌓기: 이 물건 위에 놓음 (높이는 place 단계 실행 시 계산)
+ * @throws PlanningError - 놓을 위치까지 갈 수 있는 길이 없을 때
  */
+export function createPlacePlan(
+  robot: Robot,
+  object: PickableObject,
+  targetPosition: Vector3,
+  obstacles: Obstacle[] = [],
+  support?: PickableObject
+): ActionPlan {
+  const groundLevel = -0.35;
+  const target = { x: targetPosition.x, y: groundLevel, z: targetPosition.z };
+
+  // 로봇 → 목표 방향 (이미 목표 위에 서 있으면 바라보는 방향)
+  const dx = target.x - robot.position.x;
+  const dz = target.z - robot.position.z;
+  const len = Math.hypot(dx, dz);
+  const rad = (robot.rotation * Math.PI) / 180;
+  const dir = len > 1e-6 ? { x: dx / len, z: dz / len } : { x: Math.sin(rad), z: -Math.cos(rad) };
+  const reach = support ? Math.max(PLACE_REACH, footprintRadius(support) + ROBOT_RADIUS + PUSH_STANDOFF) : PLACE_REACH;
+  const standAt = { x: target.x - dir.x * reach, y: groundLevel, z: target.z - dir.z * reach };
+
+  const steps: ActionStep[] = [];
+
+  if (distance(robot.position, standAt) > 0.25) {
+    const waypoints = findPath({ ...robot.position, y: groundLevel }, standAt, obstacles);
+    if (!waypoints) {
+      throw new PlanningError("No collision-free path to the placement spot");
+    }
+
+    addWalkSteps(steps, robot.position, waypoints);
+  }
+
+  steps.push({ type: "align", targetRotation: angleTo(standAt, target), targetPosition: { ...targetPosition }, duration: 200 }); // 놓을 곳을 보며
+  steps.push({ type: "squat", duration: 500 });
+  steps.push({ type: "place", objectId: object.id, targetPosition: { ...targetPosition }, supportObjectId: support?.id, duration: 200 });
+  steps.push({ type: "stand", duration: 600 });
+
+  return {
+    id: `place-${Date.now()}`,
+    steps,
+  };
+}
+
+// 픽 플랜이 끝난 직후의 로봇 상태 (물건 앞 설 자리에서 물건 쪽을 바라보며 들고 있음)
+function robotAfterPick(robot: Robot, object: PickableObject, pick: ActionPlan): Robot {
+  const lastAlign = [...pick.steps].reverse().find((step) => step.type === "align");
+  const grasp = pick.steps.find((step) => step.type === "grasp");
+  const lastNavigate = [...pick.steps].reverse().find((step) => step.type === "navigate");
+  const position = lastNavigate?.targetPosition ?? robot.position;
+  return {
+    ...robot,
+    hands: grab(robot.hands, grasp?.grip ?? "right", object.id),
+    position: { x: position.x, y: -0.35, z: position.z },
+    rotation: lastAlign?.targetRotation ?? robot.rotation,
+  };
+}
+
+/**
+ * "X를 Y 위에 쌓기" 액션 플랜 생성
+ *
+ * 단계:
+ * 1~6. createPickPlan(): X까지 걸어가서 집기
+ * 7~. createPlacePlan(): X를 집은 자리에서 Y 앞까지 걸어가서 Y 위에 놓기
+ *
+ * @param obstacles - 피해야 할 장애물 (X는 제외, Y는 포함)
+ * @throws PlanningError - X나 Y까지 갈 수 있는 길이 없을 때
+ */
+export function createStackPlan(
+  robot: Robot,
+  object: PickableObject,
+  support: PickableObject,
+  obstacles: Obstacle[] = []
+): ActionPlan {
+  const pick = createPickPlan(robot, object, obstacles);
+  const place = createPlacePlan(robotAfterPick(robot, object, pick), object, support.position, obstacles, support);
+
+  return {
+    id: `stack-${object.id}-${support.id}-${Date.now()}`,
+    steps: [...pick.steps, ...place.steps],
+    targetObjectName: object.name,
+    targetObjectColor: object.color,
+  };
+}
+
+export const DEFAULT_PUSH_DISTANCE = 1; // 목표 없이 "밀어"라고만 하면 1m
+const PUSH_SPEED = 0.6; // m/s, 가벼운 물건 기준 (무거울수록 느려짐)
+
+// 미는 데 걸리는 시간 (ms): 10kg이면 절반 속도
+function pushDuration(distance: number, mass: number): number {
+  const speed = PUSH_SPEED / (1 + mass / 10);
+  return Math.round((distance / speed) * 1000);
+}
+
+/**
+ * "밀기" 액션 플랜 생성 (들 수 없는 무거운 물건용)
+ *
+ * 단계:
+ * 1. align + navigate: 미는 방향 반대편, 물건 바로 뒤까지 걸어가기 (장애물 회피)
+ * 2. align: 미는 방향 바라보기
+ * 3. brace: 두 손을 물건에 대고 몸 기울이기
+ * 4. push: 로봇과 물건이 같이 targetPosition까지 이동 (위에 쌓인 물건도 같이)
+ * 5. followThrough: 제자리 자세로
+ *
+ * @param targetPosition - 물건이 밀려갈 위치
+ * @param obstacles - 피해야 할 장애물 (미는 물건 포함, 그 위에 쌓인 물건은 제외)
+ * @throws PlanningError - 물건 뒤로 갈 수 없거나, 밀고 가는 길이 막혀 있을 때
+ */
+export function createPushPlan(
+  robot: Robot,
+  object: PickableObject,
+  targetPosition: Vector3,
+  obstacles: Obstacle[] = []
+): ActionPlan {
+  const groundLevel = -0.35;
+  const dx = targetPosition.x - object.position.x;
+  const dz = targetPosition.z - object.position.z;
+  const length = Math.hypot(dx, dz);
+  if (length < 0.05) {
+    throw new PlanningError(`${object.name} is already there`);
+  }
+
+  // 물건 중심에서 미는 방향 반대쪽으로 (물건 반지름 + 로봇 반지름 + 간격)
+  const dir = { x: dx / length, z: dz / length };
+  const behind = footprintRadius(object) + ROBOT_RADIUS + PUSH_STANDOFF;
+  const approach = { x: object.position.x - dir.x * behind, y: groundLevel, z: object.position.z - dir.z * behind };
+  const end = { x: targetPosition.x - dir.x * behind, y: groundLevel, z: targetPosition.z - dir.z * behind };
+
+  // 물건도, 뒤따르는 로봇도 가는 길에 부딪히면 안 됨
+  const others = obstacles.filter((obstacle) => obstacle.id !== object.id);
+  const blocker = firstObstacleOnSegment(object.position, targetPosition, others, footprintRadius(object))
+    ?? firstObstacleOnSegment(approach, end, others);
+  if (blocker) {
+    throw new PlanningError(`Can't push ${object.name}: ${blocker.name} is in the way`);
+  }
+
+  const steps: ActionStep[] = [];
+
+  if (distance(robot.position, approach) > 0.25) {
+    const waypoints = findPath({ ...robot.position, y: groundLevel }, approach, obstacles);
+    if (!waypoints) {
+      throw new PlanningError(`No collision-free path behind ${object.name}`);
+    }
+
+    addWalkSteps(steps, robot.position, waypoints);
+  }
+
+  steps.push({ type: "align", targetRotation: angleTo(approach, end), objectId: object.id, duration: 200 }); // 밀 물건을 보며
+  steps.push({ type: "brace", duration: 400 });
+  steps.push({
+    type: "push",
+    objectId: object.id,
+    targetPosition: { ...targetPosition },
+    duration: pushDuration(length, object.mass),
+  });
+  steps.push({ type: "followThrough", duration: 400 });
+
+  return {
+    id: `push-${object.id}-${Date.now()}`,
+    steps,
+    targetObjectName: object.name,
+    targetObjectColor: object.color,
+  };
+}
+
+/**
+ * "손 흔들기" 액션 플랜 생성
+ *
+ * 단계:
+ * 1. wave: 팔 올리기 → 내리기 → 올리기 (300ms 간격) 후 제자리
+ */
+export function createWavePlan(side: Side = "right"): ActionPlan {
+  return {
+    id: `wave-${side}-${Date.now()}`,
+    steps: [{ type: "wave", side, duration: 900 }],
+  };
+}
+
+/**
+ * "모션 클립 재생" 액션 플랜 생성 (motionClips.ts, 예: "bow")
+ *
+ * 단계:
+ * 1. clip: 현재 자세에서 시작해 키프레임을 따라감 (clip.duration 동안)
+ */
+export function createClipPlan(clip: MotionClip): ActionPlan {
+  return {
+    id: `clip-${clip.name}-${Date.now()}`,
+    steps: [{ type: "clip", clipName: clip.name, duration: clip.duration }],
+  };
+}
+
+/**
+ * "던지기" 액션 플랜 생성 (들고 있는 물건)
+ *
+ * 단계:
+ * 1. align: 목표 방향 바라보기
+ * 2. windUp: 팔을 머리 뒤로 젖히기
+ * 3. release: 팔을 앞으로 휘두르며 놓기 → 물건이 포물선으로 날아감 (projectile.ts)
+ * 4. followThrough: 팔 내리고 제자리
+ *
+ * @param object - 던질 물건 (들고 있는 것 중 하나)
+ * @param targetPosition - 물건이 떨어질 위치 (y = 바닥에 놓였을 때의 중심 높이)
+ * @throws PlanningError - 최대 속도(MAX_THROW_SPEED)로도 닿지 않을 때
+ */
+export function createThrowPlan(robot: Robot, object: PickableObject, targetPosition: Vector3): ActionPlan {
+  const targetRotation = angleTo(robot.position, targetPosition);
+  const release = releasePoint(robot.position, targetRotation);
+  if (!launchVelocity(release, targetPosition)) {
+    const range = Math.hypot(targetPosition.x - robot.position.x, targetPosition.z - robot.position.z);
+    throw new PlanningError(`Too far to throw (${range.toFixed(1)}m)`);
+  }
+
+  return {
+    id: `throw-${Date.now()}`,
+    steps: [
+      { type: "align", targetRotation, targetPosition: { ...targetPosition }, duration: 300 }, // 던질 곳을 보며
+      { type: "windUp", duration: 500 },
+      { type: "release", objectId: object.id, targetPosition: { ...targetPosition }, duration: 200 },
+      { type: "followThrough", duration: 400 },
+    ],
+  };
+}
+
+/**
+ * "X 집어서 던지기" 액션 플랜 생성
+ *
+ * 단계:
+ * 1~6. createPickPlan(): X까지 걸어가서 집기
+ * 7~. createThrowPlan(): X를 집은 자리에서 던지기
+ *
+ * @throws PlanningError - X까지 갈 길이 없거나 너무 멀어서 던질 수 없을 때
+ */
+export function createPickAndThrowPlan(
+  robot: Robot,
+  object: PickableObject,
+  targetPosition: Vector3,
+  obstacles: Obstacle[] = []
+): ActionPlan {
+  const pick = createPickPlan(robot, object, obstacles);
+  const toss = createThrowPlan(robotAfterPick(robot, object, pick), object, targetPosition);
+
+  return {
+    id: `throw-${object.id}-${Date.now()}`,
+    steps: [...pick.steps, ...toss.steps],
+    targetObjectName: object.name,
+    targetObjectColor: object.color,
+  };
+}
@@ -0,0 +1,48 @@
+import type { Robot } from "./types";
+
+/**
+ * Addressed commands: "ANDREA 2, pick up the blue ball" → robot-2 + "pick up the blue ball".
+ *
+ * A robot answers to its full name, its id, and to "<first word of name> <n>",
+ * "robot <n>", "로봇 <n>", "<n>번 로봇" / "<n>번", where n is the number at the
+ * end of its id (robot-2 → 2). The address must come first in the command.
+ */
+
+export interface AddressedCommand {
+  robotId: string | null; // null = not addressed
+  command: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function robotAliases(robot: Robot): string[] {
+  const aliases = [robot.name, robot.id];
+  const number = robot.id.match(/(\d+)$/)?.[1];
+  if (number) {
+    const firstWord = robot.name.split(/\s+/)[0];
+    aliases.push(`${firstWord} ${number}`, `robot ${number}`, `로봇 ${number}`, `${number}번 로봇`, `${number}번`);
+  }
+  return aliases;
+}
+
+export function splitAddressedCommand(text: string, robots: Robot[]): AddressedCommand {
+  const trimmed = text.trim();
+
+  // Longest alias first, so "ANDREA Kernel II" wins over "ANDREA Kernel I"
+  const candidates = robots
+    .flatMap((robot) => robotAliases(robot).map((alias) => ({ robot, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  for (const { robot, alias } of candidates) {
+    // Address followed by punctuation/space (and optional Korean vocative 야/아)
+    const pattern = new RegExp(`^${escapeRegExp(alias)}(?:야|아)?(?:\\s*[,:!]\\s*|\\s+|$)`, "i");
+    const match = trimmed.match(pattern);
+    if (match) {
+      return { robotId: robot.id, command: trimmed.slice(match[0].length).trim() };
+    }
+  }
+
+  return { robotId: null, command: trimmed };
+}
@@ -12,6 +12,10 @@ export const JOINT_LIMITS = {
   elbow: {
     flex: { min: 0, max: 145 } // 0 = straight, 145 = fully bent (ONLY FORWARD)
   },
+  wrist: {
+    flex: { min: -70, max: 80 },  // -70 = hand bent back, 80 = bent towards the palm
+    twist: { min: -90, max: 90 }  // -90 = palm turned back, 90 = palm forward
+  },
   hip: {
     pitch: { min: -20, max: 120 }, // -20 = leg back, 120 = leg forward (sitting/squat)
     roll: { min: -45, max: 45 }    // -45 = leg cross inward, 45 = leg out (abduction)
@@ -21,75 +25,19 @@ export const JOINT_LIMITS = {
   },
   torso: {
     pitch: { min: -30, max: 60 }, // -30 = lean back, 60 = bend forward
-    roll: { min: -30, max: 30 }   // -30/30 = side bending
+    roll: { min: -30, max: 30 },  // -30/30 = side bending
+    yaw: { min: -45, max: 45 }    // -45/45 = twisting left/right at the waist
+  },
+  neck: {
+    yaw: { min: -80, max: 80 },   // -80 = looking over the left shoulder, 80 = over the right
+    pitch: { min: -40, max: 50 }  // -40 = looking up, 50 = chin down
+  },
+  thumb: {
+    flex: { min: 0, max: 80 },       // 0 = straight, 80 = tip curled into the palm
+    opposition: { min: 0, max: 90 }  // 0 = alongside the fingers, 90 = across the palm
+  },
+  fingers: {
+    flex: { min: 0, max: 90 },  // Per knuckle: 0 = flat hand, 90 = fist
+    spread: { min: 0, max: 20 } // 0 = together, 20 = fanned out
   }
 };
-
-// Apply constraints to pose to prevent unnatural joint angles
-export function constrainPose(pose: any): any {
-  const constrained = JSON.parse(JSON.stringify(pose));
-
-  // Constrain torso (if exists)
-  if (constrained.torso) {
-    constrained.torso.pitch = clamp(
-      constrained.torso.pitch,
-      JOINT_LIMITS.torso.pitch.min,
-      JOINT_LIMITS.torso.pitch.max
-    );
-    constrained.torso.roll = clamp(
-      constrained.torso.roll,
-      JOINT_LIMITS.torso.roll.min,
-      JOINT_LIMITS.torso.roll.max
-    );
-  }
-
-  // Constrain arms
-  constrained.leftArm.shoulder.pitch = clamp(
-    constrained.leftArm.shoulder.pitch,
-    JOINT_LIMITS.shoulder.pitch.min,
-    JOINT_LIMITS.shoulder.pitch.max
-  );
-  constrained.rightArm.shoulder.pitch = clamp(
-    constrained.rightArm.shoulder.pitch,
-    JOINT_LIMITS.shoulder.pitch.min,
-    JOINT_LIMITS.shoulder.pitch.max
-  );
-
-  // Elbows can ONLY bend forward (positive values only)
-  constrained.leftArm.elbow.flex = clamp(
-    Math.abs(constrained.leftArm.elbow.flex), // Force positive
-    JOINT_LIMITS.elbow.flex.min,
-    JOINT_LIMITS.elbow.flex.max
-  );
-  constrained.rightArm.elbow.flex = clamp(
-    Math.abs(constrained.rightArm.elbow.flex), // Force positive
-    JOINT_LIMITS.elbow.flex.min,
-    JOINT_LIMITS.elbow.flex.max
-  );
-
-  // Constrain legs
-  constrained.leftLeg.hip.pitch = clamp(
-    constrained.leftLeg.hip.pitch,
-    JOINT_LIMITS.hip.pitch.min,
-    JOINT_LIMITS.hip.pitch.max
-  );
-  constrained.rightLeg.hip.pitch = clamp(
-    constrained.rightLeg.hip.pitch,
-    JOINT_LIMITS.hip.pitch.min,
-    JOINT_LIMITS.hip.pitch.max
-  );
-
-  // Knees can ONLY bend forward (positive values only)
-  constrained.leftLeg.knee.flex = clamp(
-    Math.abs(constrained.leftLeg.knee.flex), // Force positive
-    JOINT_LIMITS.knee.flex.min,
-    JOINT_LIMITS.knee.flex.max
-  );
-  constrained.rightLeg.knee.flex = clamp(
-    Math.abs(constrained.rightLeg.knee.flex), // Force positive
-    JOINT_LIMITS.knee.flex.min,
-    JOINT_LIMITS.knee.flex.max
-  );
-
-  return constrained;
-}
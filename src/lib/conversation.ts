@@ -0,0 +1,108 @@
+import type { Intent, PickableObject } from "./types";
+import { findObjectCandidates } from "./actionPlanner";
+
+/**
+ * Clarification dialogue state.
+ *
+ * When a pick cannot be resolved to exactly one object, the robot asks back
+ * ("Which box — red or yellow?") and keeps the unresolved intent, the
+ * candidates and the rest of the command chain until the user answers.
+ * Plain data + functions so the ChatPanel and the scenario runner share it.
+ */
+
+// Which description the question is about: objectName, or the stack target (targetObjectName)
+export type CandidateField = "object" | "target";
+
+export interface PendingClarification {
+  intent: Intent; // The unresolved pick
+  field: CandidateField;
+  candidates: PickableObject[];
+  question: string;
+  remaining: Intent[]; // Intents of the same command that were waiting behind it
+}
+
+export type ClarificationAnswer =
+  | { kind: "resolved"; intents: Intent[] } // Resolved pick first, then the rest of the chain
+  | { kind: "cancelled" }
+  | { kind: "unclear" };
+
+const CANCEL = /^(취소|됐어|아니야|그만|cancel|never\s*mind|nothing|none|stop)\b/i;
+
+// Ordinal answers ("the second one", "두 번째") refer to the order the options were listed in
+const ORDINALS: [RegExp, number][] = [
+  [/\b(first|1st|1)\b|첫/i, 0],
+  [/\b(second|2nd|2)\b|두\s*번/i, 1],
+  [/\b(third|3rd|3)\b|세\s*번/i, 2],
+  [/\b(fourth|4th|4)\b|네\s*번/i, 3],
+  [/\b(fifth|5th|5)\b|다섯/i, 4],
+];
+const LAST = /\blast\b|마지막/i;
+
+// "red box" → "red" when every candidate has the same shape
+function colorOf(obj: PickableObject): string {
+  return obj.name.split(/\s+/)[0];
+}
+
+function listOptions(options: string[]): string {
+  if (options.length <= 1) return options.join("");
+  return `${options.slice(0, -1).join(", ")} or ${options[options.length - 1]}`;
+}
+
+// Labels shown to the user (and offered as quick answers in the ChatPanel)
+export function clarificationOptions(candidates: PickableObject[]): string[] {
+  const sameType = candidates.every((obj) => obj.type === candidates[0].type);
+  const colors = candidates.map(colorOf);
+  const distinctColors = new Set(colors).size === colors.length;
+  return sameType && distinctColors ? colors : candidates.map((obj) => obj.name);
+}
+
+export function createClarification(
+  intent: Intent,
+  candidates: PickableObject[],
+  remaining: Intent[] = [],
+  field: CandidateField = "object"
+): PendingClarification {
+  const options = listOptions(clarificationOptions(candidates));
+  const description = (field === "target" ? intent.targetObjectName : intent.objectName) ?? "";
+  const found = findObjectCandidates(candidates, description).length > 0;
+
+  let question: string;
+  if (found && candidates.every((obj) => obj.type === candidates[0].type)) {
+    question = `Which ${description} — ${options}?`;
+  } else if (found) {
+    question = `Which one do you mean — ${options}?`;
+  } else {
+    question = `I can't find "${description}". Did you mean ${options}?`;
+  }
+
+  return { intent, field, candidates, question, remaining };
+}
+
+/**
+ * Interpret the user's reply to a pending clarification.
+ * "unclear" means the reply names none (or several) of the candidates.
+ */
+export function answerClarification(pending: PendingClarification, answer: string): ClarificationAnswer {
+  const text = answer.trim();
+  if (CANCEL.test(text)) {
+    return { kind: "cancelled" };
+  }
+
+  let chosen: PickableObject | undefined;
+  const matches = findObjectCandidates(pending.candidates, text);
+  if (matches.length === 1) {
+    chosen = matches[0];
+  } else if (matches.length === 0) {
+    const ordinal = LAST.test(text) ? pending.candidates.length - 1 : ORDINALS.find(([pattern]) => pattern.test(text))?.[1];
+    chosen = ordinal !== undefined ? pending.candidates[ordinal] : undefined;
+  }
+
+  if (!chosen) {
+    return { kind: "unclear" };
+  }
+
+  const resolved: Intent = pending.field === "target"
+    ? { ...pending.intent, targetObjectId: chosen.id, targetObjectName: chosen.name }
+    : { ...pending.intent, objectId: chosen.id, objectName: chosen.name };
+  return { kind: "resolved", intents: [resolved, ...pending.remaining] };
+}
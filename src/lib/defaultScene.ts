@@ -0,0 +1,48 @@
+import type { FullPose, Robot, PickableObject } from "./types";
+import { emptyHands } from "./hands";
+
+// Neutral standing pose (also the target of "reset")
+export const DEFAULT_POSE: FullPose = {
+  leftArm: { shoulder: { pitch: 0 }, elbow: { flex: 0 } },
+  rightArm: { shoulder: { pitch: 0 }, elbow: { flex: 0 } },
+  leftLeg: { hip: { pitch: 0 }, knee: { flex: 0 } },
+  rightLeg: { hip: { pitch: 0 }, knee: { flex: 0 } },
+};
+
+// A fresh copy of DEFAULT_POSE for a robot to own
+export function defaultPose(): FullPose {
+  return structuredClone(DEFAULT_POSE);
+}
+
+export function createDefaultRobots(): Robot[] {
+  return [
+    {
+      id: "robot-1",
+      name: "ANDREA Kernel I",
+      pose: defaultPose(),
+      position: { x: 0, y: -0.35, z: 0 }, // Standing on ground - feet at y=-2 plane
+      rotation: 0,
+      hands: emptyHands(),
+      liftLimit: 5,
+    },
+    {
+      id: "robot-2",
+      name: "ANDREA Kernel II",
+      pose: defaultPose(),
+      position: { x: -2.5, y: -0.35, z: -2.5 },
+      rotation: 0,
+      hands: emptyHands(),
+      liftLimit: 5,
+    },
+  ];
+}
+
+export function createDefaultObjects(): PickableObject[] {
+  return [
+    { id: "obj-1", name: "red box", type: "box", position: { x: 1.5, y: -1.85, z: 0 }, color: "#ef4444", size: 0.3, mass: 1.5, isPicked: false },
+    { id: "obj-2", name: "blue ball", type: "sphere", position: { x: -1.5, y: -1.85, z: 1 }, color: "#3b82f6", size: 0.3, mass: 0.5, isPicked: false },
+    { id: "obj-3", name: "green cylinder", type: "cylinder", position: { x: 0.5, y: -1.85, z: -1.8 }, color: "#10b981", size: 0.3, mass: 2, isPicked: false },
+    { id: "obj-4", name: "yellow cube", type: "box", position: { x: -1, y: -1.875, z: -1 }, color: "#fbbf24", size: 0.25, mass: 1, isPicked: false },
+    { id: "obj-5", name: "purple sphere", type: "sphere", position: { x: 2, y: -1.85, z: -1.5 }, color: "#a855f7", size: 0.3, mass: 0.6, isPicked: false },
+  ];
+}
@@ -0,0 +1,124 @@
+import type { Robot, Side, Vector3 } from "./types";
+import { rotateX, rotateY, rotateZ, SKELETON, torsoToLocal } from "./skeleton";
+import { hipPosition, shoulderPosition } from "./inverseKinematics";
+
+/**
+ * Forward kinematics: where every joint of a robot is in the world.
+ *
+ * Walks the same chain the renderer draws (body → torso → neck → head, body →
+ * torso → shoulder → elbow → hand, body → hip → knee → foot) with the segment lengths and joint signs in
+ * skeleton.ts, so the result matches Humanoid.tsx without a scene graph.
+ */
+
+export interface JointTransform {
+  position: Vector3;
+  // The joint's local axes in world space (y runs back up the limb)
+  axes: { x: Vector3; y: Vector3; z: Vector3 };
+}
+
+export type JointName =
+  | "torso" | "neck" | "head"
+  | "leftShoulder" | "leftElbow" | "leftHand"
+  | "rightShoulder" | "rightElbow" | "rightHand"
+  | "leftHip" | "leftKnee" | "leftFoot"
+  | "rightHip" | "rightKnee" | "rightFoot";
+
+export type Skeleton = Record<JointName, JointTransform>;
+
+function add(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function scale(v: Vector3, s: number): Vector3 {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+// A local direction of `frame` in world space
+function direction(frame: JointTransform, v: Vector3): Vector3 {
+  return add(add(scale(frame.axes.x, v.x), scale(frame.axes.y, v.y)), scale(frame.axes.z, v.z));
+}
+
+// A local point of `frame` in world space
+function point(frame: JointTransform, v: Vector3): Vector3 {
+  return add(frame.position, direction(frame, v));
+}
+
+// `frame` moved to its local point `at`, then turned by `turn` (in its own axes)
+function child(frame: JointTransform, at: Vector3, turn: (v: Vector3) => Vector3 = (v) => v): JointTransform {
+  return {
+    position: point(frame, at),
+    axes: {
+      x: direction(frame, turn({ x: 1, y: 0, z: 0 })),
+      y: direction(frame, turn({ x: 0, y: 1, z: 0 })),
+      z: direction(frame, turn({ x: 0, y: 0, z: 1 })),
+    },
+  };
+}
+
+// Only where the robot is and how it is posed matter
+type Posed = Pick<Robot, "pose" | "position" | "rotation">;
+
+function bodyFrame(robot: Posed): JointTransform {
+  const rad = (robot.rotation * Math.PI) / 180;
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  return { position: { ...robot.position }, axes: { x: { x: c, y: 0, z: s }, y: { x: 0, y: 1, z: 0 }, z: { x: -s, y: 0, z: c } } };
+}
+
+// Roll moves a limb outwards, which is -x on the left
+function outward(side: Side, roll: number): number {
+  return side === "left" ? -roll : roll;
+}
+
+export function forwardKinematics(robot: Posed): Skeleton {
+  const pose = robot.pose;
+  const body = bodyFrame(robot);
+  const torso = child(body, { x: 0, y: 0, z: 0 }, (v) => torsoToLocal(v, pose.torso));
+  const look = pose.neck ?? { yaw: 0, pitch: 0 };
+  const neck = child(torso, { x: 0, y: SKELETON.neck, z: 0 }, (v) => rotateY(rotateX(v, -look.pitch), look.yaw));
+  const head = child(neck, { x: 0, y: SKELETON.eyes, z: 0 });
+
+  const arm = (side: Side) => {
+    const { shoulder: joint, elbow: hinge, wrist = { flex: 0, twist: 0 } } = pose[`${side}Arm`];
+    const shoulder = child(torso, shoulderPosition(side), (v) => rotateX(rotateZ(v, outward(side, joint.roll ?? 0)), joint.pitch));
+    const elbow = child(shoulder, { x: 0, y: -SKELETON.upperArm, z: 0 }, (v) => rotateX(v, hinge.flex));
+    // The palm faces the body until the wrist twists it forward
+    const hand = child(elbow, { x: 0, y: -SKELETON.forearm, z: 0 }, (v) => rotateY(rotateZ(v, -outward(side, wrist.flex)), outward(side, wrist.twist)));
+    return { shoulder, elbow, hand };
+  };
+
+  const leg = (side: Side) => {
+    const { hip: joint, knee: hinge } = pose[`${side}Leg`];
+    const hip = child(body, hipPosition(side), (v) => rotateX(rotateZ(v, outward(side, joint.roll ?? 0)), joint.pitch));
+    const knee = child(hip, { x: 0, y: -SKELETON.thigh, z: 0 }, (v) => rotateX(v, -hinge.flex));
+    const foot = child(knee, { x: 0, y: -SKELETON.shin, z: 0 });
+    return { hip, knee, foot };
+  };
+
+  const left = arm("left");
+  const right = arm("right");
+  const leftLeg = leg("left");
+  const rightLeg = leg("right");
+  return {
+    torso, neck, head,
+    leftShoulder: left.shoulder, leftElbow: left.elbow, leftHand: left.hand,
+    rightShoulder: right.shoulder, rightElbow: right.elbow, rightHand: right.hand,
+    leftHip: leftLeg.hip, leftKnee: leftLeg.knee, leftFoot: leftLeg.foot,
+    rightHip: rightLeg.hip, rightKnee: rightLeg.knee, rightFoot: rightLeg.foot,
+  };
+}
+
+// Centre of the hand (world frame)
+export function handPosition(robot: Robot, side: Side): Vector3 {
+  return forwardKinematics(robot)[`${side}Hand`].position;
+}
+
+// Between the eyes (world frame)
+export function headPosition(robot: Robot): Vector3 {
+  return forwardKinematics(robot).head.position;
+}
+
+// Centre of the foot, i.e. the ankle (world frame)
+export function footPosition(robot: Robot, side: Side): Vector3 {
+  return forwardKinematics(robot)[`${side}Foot`].position;
+}
@@ -0,0 +1,41 @@
+import type { FullPose, HandJointAngles, PickableObject, Side } from "./types";
+import { needsBothHands } from "./hands";
+
+/**
+ * Finger shapes for holding things.
+ *
+ * Each shape is the closed hand around one kind of object: a power grip wraps
+ * the fingers round a cylinder with the thumb over them, a spherical grip cups
+ * a ball with the fingers spread, and a pinch holds a small cube between the
+ * thumb and the fingertips. The grasp step closes the hand from its current
+ * shape to the one for the object; letting go opens it again.
+ */
+
+export type GraspShape = "power" | "spherical" | "pinch";
+
+export const OPEN_HAND: HandJointAngles = {
+  thumb: { flex: 0, opposition: 0 },
+  fingers: { flex: 0, spread: 0 },
+};
+
+export const GRASP_SHAPES: Record<GraspShape, HandJointAngles> = {
+  power: { thumb: { flex: 50, opposition: 70 }, fingers: { flex: 75, spread: 0 } },
+  spherical: { thumb: { flex: 30, opposition: 50 }, fingers: { flex: 40, spread: 18 } },
+  pinch: { thumb: { flex: 25, opposition: 85 }, fingers: { flex: 30, spread: 0 } },
+};
+
+export function handKey(side: Side): "leftHand" | "rightHand" {
+  return side === "left" ? "leftHand" : "rightHand";
+}
+
+// Balls are cupped, cylinders wrapped; a box small enough for one hand is pinched, a big one held with wrapped fingers
+export function graspShapeFor(obj: PickableObject): GraspShape {
+  if (obj.type === "sphere") return "spherical";
+  if (obj.type === "cylinder" || needsBothHands(obj)) return "power";
+  return "pinch";
+}
+
+// The finger angles of one hand (unset = open)
+export function handAngles(pose: FullPose, side: Side): HandJointAngles {
+  return pose[handKey(side)] ?? OPEN_HAND;
+}
@@ -0,0 +1,61 @@
+import type { Grip, PickableObject, Robot, Side } from "./types";
+
+/**
+ * What a robot holds in which hand.
+ *
+ * `robot.hands` names the object in each hand. A two-handed grip puts the same
+ * object in both, so a robot carries either one large object or up to two
+ * small ones, one per hand. Small objects go in the right hand first.
+ */
+
+// Smallest size (m) per shape that needs both hands; a ball is harder to palm than a box edge is to grip
+export const TWO_HAND_SIZE: Record<PickableObject["type"], number> = { box: 0.4, cylinder: 0.4, sphere: 0.35 };
+
+const SIDES: Side[] = ["right", "left"];
+
+export function emptyHands(): Record<Side, string | null> {
+  return { left: null, right: null };
+}
+
+export function needsBothHands(obj: PickableObject): boolean {
+  return obj.size >= TWO_HAND_SIZE[obj.type];
+}
+
+export function handsOf(grip: Grip): Side[] {
+  return grip === "both" ? SIDES : [grip];
+}
+
+// Held object ids, right hand first (a two-handed object once)
+export function heldObjectIds(robot: Robot): string[] {
+  const ids = SIDES.map((side) => robot.hands[side]).filter((id): id is string => id !== null);
+  return [...new Set(ids)];
+}
+
+// The hand(s) holding `objectId`, or null when it is not in hand
+export function gripOf(robot: Robot, objectId: string): Grip | null {
+  const sides = SIDES.filter((side) => robot.hands[side] === objectId);
+  if (sides.length === 2) return "both";
+  return sides[0] ?? null;
+}
+
+// The hand(s) to pick `obj` up with, or null when they are not free
+export function chooseGrip(robot: Robot, obj: PickableObject): Grip | null {
+  const free = SIDES.filter((side) => robot.hands[side] === null);
+  if (needsBothHands(obj)) return free.length === 2 ? "both" : null;
+  return free[0] ?? null;
+}
+
+export function grab(hands: Record<Side, string | null>, grip: Grip, objectId: string): Record<Side, string | null> {
+  const next = { ...hands };
+  handsOf(grip).forEach((side) => {
+    next[side] = objectId;
+  });
+  return next;
+}
+
+export function letGo(hands: Record<Side, string | null>, objectId: string): Record<Side, string | null> {
+  return {
+    left: hands.left === objectId ? null : hands.left,
+    right: hands.right === objectId ? null : hands.right,
+  };
+}
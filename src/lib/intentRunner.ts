@@ -0,0 +1,447 @@
+import type { Intent, FullPose, Side, Joint, Axis, PickableObject, Robot, Vector3, ActionPlan } from "./types";
+import { getActiveRunner, type PlanRunner } from "./actionExecutor";
+import type { World } from "./world";
+import {
+  findObjectCandidates,
+  createPickPlan,
+  createDropPlan,
+  createPlacePlan,
+  createStackPlan,
+  createThrowPlan,
+  createPickAndThrowPlan,
+  createPushPlan,
+  createWavePlan,
+  createClipPlan,
+  DEFAULT_PUSH_DISTANCE,
+  PlanningError,
+} from "./actionPlanner";
+import { canSupport, findOverlap, footprintRadius, objectsAbove, objectsBelow, objectsOnTop, placeNextTo, restingY } from "./placement";
+import { DEFAULT_THROW_DISTANCE } from "./projectile";
+import { chooseGrip, heldObjectIds, needsBothHands } from "./hands";
+import { sceneObstacles } from "./pathPlanner";
+import { defaultPose } from "./defaultScene";
+import { checkPose, describeCollision, jointAngle, setJointAngle, type PoseCheck } from "./poseConstraints";
+import { getClip, listClips } from "./motionClips";
+import type { CandidateField } from "./conversation";
+
+/**
+ * Turns a parsed Intent into changes to a World.
+ *
+ * Plan-based intents (pick, drop, stack, throw, push, wave, clip) start a PlanRunner
+ * and hand it back so the caller decides how to wait: the UI awaits
+ * `runner.done` while the render loop ticks the clock, headless code calls
+ * `world.runUntilIdle()`.
+ *
+ * A pick whose description matches several objects (or none) is rejected with
+ * `candidates`, so the caller can ask the user which one was meant.
+ *
+ * A drop with a target (`targetPosition`, `placement`) walks over and places
+ * the object there; without one it lands at the robot's feet. A stack picks
+ * the object up (unless it is already in hand) and places it on top of
+ * `targetObjectName`. Objects with something on top cannot be picked. A throw
+ * lands the object at `targetPosition`, beside `targetObjectName`, or a couple
+ * of meters ahead. Objects over the robot's `liftLimit` cannot be picked up,
+ * only pushed (same targets as a throw, default one meter on).
+ *
+ * A robot carries one large object in both hands or two small ones, one per
+ * hand. A plain drop lets go of everything; placing, stacking and throwing
+ * use the held object the intent names, else the one in the right hand.
+ *
+ * A clip intent plays a named motion clip (motionClips.ts) from the robot's
+ * current pose.
+ *
+ * Each robot runs its own plan concurrently. Objects another robot is on its
+ * way to grab are reserved and cannot be picked.
+ */
+
+export type IntentDispatch =
+  | { ok: true; robotId: string; runner: PlanRunner | null } // null = applied instantly
+  | { ok: false; reason: string; candidates?: PickableObject[]; candidatesFor?: CandidateField };
+
+// Set (or offset) one joint angle; the result is clamped to JOINT_LIMITS and checked for self-collision
+function applyJointAngle(pose: FullPose, side: Side, joint: Joint, axis: Axis, value: number, relative: boolean): PoseCheck {
+  const limb = joint === "shoulder" || joint === "elbow" ? `${side}Arm` : `${side}Leg`;
+  const path = `${limb}.${joint}.${axis}`;
+  return checkPose(setJointAngle(pose, path, relative ? jointAngle(pose, path) + value : value));
+}
+
+// Objects other robots' running plans are still going to grasp → robot holding the reservation
+function reservedObjects(world: World, exceptRobotId: string): Map<string, string> {
+  const reserved = new Map<string, string>();
+  for (const other of world.getRobots()) {
+    if (other.id === exceptRobotId) continue;
+    const runner = getActiveRunner(world, other.id);
+    if (!runner) continue;
+    runner.plan.steps.slice(Math.max(0, runner.currentStepIndex)).forEach((step) => {
+      if (step.type === "grasp" && step.objectId) reserved.set(step.objectId, other.id);
+    });
+  }
+  return reserved;
+}
+
+type ObjectLookup =
+  | { ok: true; object: PickableObject }
+  | { ok: false; reason: string; candidates?: PickableObject[] };
+
+// Reference object of a placement (next to / on top of it): exact id first, then the description
+function findReference(objects: PickableObject[], name: string | undefined, id: string | undefined): ObjectLookup {
+  const byId = id ? objects.find((obj) => obj.id === id && !obj.isPicked) : undefined;
+  const candidates = byId ? [byId] : findObjectCandidates(objects, name ?? "");
+  if (candidates.length > 1) {
+    return { ok: false, reason: `"${name}" matches ${candidates.length} objects`, candidates };
+  }
+  if (candidates.length === 0) {
+    return { ok: false, reason: `Object "${name}" not found`, candidates: objects.filter((obj) => !obj.isPicked) };
+  }
+  return { ok: true, object: candidates[0] };
+}
+
+// Why `object` cannot be stacked on `support`, or null when it can
+function stackRefusal(object: PickableObject, support: PickableObject, objects: PickableObject[]): string | null {
+  if (object.id === support.id) return `Can't stack ${object.name} on itself`;
+  if (!canSupport(support)) return `Can't stack anything on ${support.name}, it would roll off`;
+  const onTop = objectsOnTop(support, objects)[0];
+  return onTop ? `${onTop.name} is already on top of ${support.name}` : null;
+}
+
+// The object an intent refers to, among objects that are free (not held, not reserved by another robot)
+function resolveFreeObject(world: World, robot: Robot, intent: Intent): ObjectLookup {
+  // Exact id from a scene-aware parser first, then the description search
+  const objects = world.getObjects();
+  const reserved = reservedObjects(world, robot.id);
+  const free = objects.filter((obj) => !obj.isPicked && !reserved.has(obj.id));
+  const claimedReason = (objectId: string) =>
+    `${world.getObject(objectId)?.name} is already being picked up by ${world.getRobot(reserved.get(objectId) ?? "")?.name}`;
+
+  if (intent.objectId && reserved.has(intent.objectId)) {
+    return { ok: false, reason: claimedReason(intent.objectId) };
+  }
+  let targetObject = intent.objectId ? free.find((obj) => obj.id === intent.objectId) : undefined;
+
+  if (!targetObject && intent.objectName) {
+    const candidates = findObjectCandidates(free, intent.objectName);
+    if (candidates.length === 1) {
+      targetObject = candidates[0];
+    } else if (candidates.length > 1) {
+      return { ok: false, reason: `"${intent.objectName}" matches ${candidates.length} objects`, candidates };
+    } else {
+      // Nothing free matches - maybe another robot is already going for it
+      const claimed = findObjectCandidates(objects, intent.objectName).find((obj) => reserved.has(obj.id));
+      if (claimed) return { ok: false, reason: claimedReason(claimed.id) };
+      return { ok: false, reason: `Object "${intent.objectName}" not found`, candidates: free };
+    }
+  }
+
+  if (!targetObject) {
+    return { ok: false, reason: "No object available to pick" };
+  }
+  return { ok: true, object: targetObject };
+}
+
+// The object a pick (or the first half of a stack or throw) should grab
+function resolvePickTarget(world: World, robot: Robot, intent: Intent): ObjectLookup {
+  const found = resolveFreeObject(world, robot, intent);
+  if (!found.ok) return found;
+  const target = found.object;
+
+  // Stacks are taken apart from the top
+  const onTop = objectsOnTop(target, world.getObjects())[0];
+  if (onTop) {
+    return { ok: false, reason: `Can't pick up ${target.name}: ${onTop.name} is on top of it` };
+  }
+  if (target.mass > robot.liftLimit) {
+    return { ok: false, reason: `${target.name} is too heavy to lift (${target.mass} kg, ${robot.name} can lift ${robot.liftLimit} kg). Try pushing it` };
+  }
+  if (!chooseGrip(robot, target)) {
+    return {
+      ok: false,
+      reason: needsBothHands(target)
+        ? `${robot.name} needs both hands free to pick up ${target.name}`
+        : `${robot.name}'s hands are full`,
+    };
+  }
+  return found;
+}
+
+// Objects in the robot's hands, right hand first
+function heldObjects(world: World, robot: Robot): PickableObject[] {
+  return heldObjectIds(robot)
+    .map((id) => world.getObject(id))
+    .filter((obj): obj is PickableObject => obj !== undefined);
+}
+
+// Does the intent's object (if it names one) refer to this object already in hand?
+function holdsNamed(held: PickableObject, intent: Intent): boolean {
+  if (intent.objectId) return intent.objectId === held.id;
+  if (!intent.objectName) return true;
+  return findObjectCandidates([{ ...held, isPicked: false }], intent.objectName).length > 0;
+}
+
+// The object and whatever it is stacked on: walking up to it must not avoid those
+function stackIds(obj: PickableObject, objects: PickableObject[]): string[] {
+  return [obj.id, ...objectsBelow(obj, objects).map((below) => below.id)];
+}
+
+type PlacementTarget =
+  | { ok: true; position: Vector3 | null; support?: PickableObject } // null = at the robot's feet (plain drop)
+  | { ok: false; reason: string; candidates?: PickableObject[] };
+
+// Resolve where a drop intent should put the held object
+function resolvePlacement(world: World, robot: Robot, held: PickableObject, intent: Intent): PlacementTarget {
+  const objects = world.getObjects();
+
+  if (intent.placement === "nextTo" || intent.placement === "on") {
+    const reference = findReference(objects.filter((obj) => obj.id !== held.id), intent.objectName, intent.objectId);
+    if (!reference.ok) return reference;
+
+    if (intent.placement === "on") {
+      const refusal = stackRefusal(held, reference.object, objects);
+      return refusal
+        ? { ok: false, reason: refusal }
+        : { ok: true, position: { ...reference.object.position }, support: reference.object };
+    }
+
+    const spot = placeNextTo(reference.object, held, objects, robot.position);
+    return spot
+      ? { ok: true, position: spot }
+      : { ok: false, reason: `No free spot next to ${reference.object.name}` };
+  }
+
+  // "Put it back": a held object keeps the position it was picked up from
+  const position = intent.placement === "back" ? held.position : intent.targetPosition;
+  if (!position) return { ok: true, position: null };
+
+  const blocker = findOverlap(position, footprintRadius(held), objects, [held.id]);
+  if (blocker) {
+    return { ok: false, reason: `${blocker.name} is in the way at (${position.x.toFixed(1)}, ${position.z.toFixed(1)})` };
+  }
+  return { ok: true, position: { ...position } };
+}
+
+// Plan builders throw PlanningError when there is no path; that rejects the intent
+function runPlanned(world: World, robot: Robot, build: () => ActionPlan): IntentDispatch {
+  try {
+    return { ok: true, robotId: robot.id, runner: world.runPlan(build(), robot.id) };
+  } catch (error) {
+    if (error instanceof PlanningError) return { ok: false, reason: error.message };
+    throw error;
+  }
+}
+
+// Put one held object where a drop intent says (at the robot's feet when it says nowhere)
+function placeHeld(world: World, robot: Robot, held: PickableObject, intent: Intent): IntentDispatch {
+  const target = resolvePlacement(world, robot, held, intent);
+  if (!target.ok) return target;
+  if (!target.position) {
+    return { ok: true, robotId: robot.id, runner: world.runPlan(createDropPlan(robot, [held]), robot.id) };
+  }
+
+  // Walk over to the spot first
+  const position = target.position;
+  const obstacles = sceneObstacles(world.getRobots(), world.getObjects(), { robotId: robot.id });
+  return runPlanned(world, robot, () => createPlacePlan(robot, held, position, obstacles, target.support));
+}
+
+export function dispatchIntent(world: World, intent: Intent, robotId?: string): IntentDispatch {
+  if (intent.type === "unknown") {
+    return { ok: false, reason: `Unknown command: "${intent.text}"` };
+  }
+
+  const targetRobotId = robotId ?? intent.robotId;
+  const robot = targetRobotId ? world.getRobot(targetRobotId) : world.getRobots()[0];
+  if (!robot) {
+    return { ok: false, reason: `Robot "${targetRobotId}" not found` };
+  }
+
+  switch (intent.type) {
+    case "pick": {
+      if (robot.hands.left && robot.hands.right) {
+        return { ok: false, reason: `${robot.name}'s hands are full` };
+      }
+
+      // Like validation: a pick names its object (parsers turn a bare "pick it up" into unknown)
+      if (!intent.objectName && !intent.objectId) {
+        return { ok: false, reason: "What should be picked up?" };
+      }
+      const target = resolvePickTarget(world, robot, intent);
+      if (!target.ok) return target;
+
+      // Walk around other objects and robots (not the stack it sits on); no path means the plan fails up front
+      const obstacles = sceneObstacles(world.getRobots(), world.getObjects(), { robotId: robot.id, ignoreObjectIds: stackIds(target.object, world.getObjects()) });
+      return runPlanned(world, robot, () => createPickPlan(robot, target.object, obstacles));
+    }
+
+    case "drop": {
+      const held = heldObjects(world, robot);
+      if (held.length === 0) {
+        return { ok: false, reason: `${robot.name} is not holding any object` };
+      }
+      if (intent.placement || intent.targetPosition) {
+        // Coordinates and "back" name the object to put down; "nextTo"/"on" name the reference object instead
+        const namesHeld = intent.placement !== "nextTo" && intent.placement !== "on" && Boolean(intent.objectName || intent.objectId);
+        const placed = namesHeld ? held.find((obj) => holdsNamed(obj, intent)) : held[0];
+        if (!placed) {
+          return { ok: false, reason: `${robot.name} is not holding ${intent.objectName ?? intent.objectId}` };
+        }
+        return placeHeld(world, robot, placed, intent);
+      }
+
+      // "Drop the ball" lets go of that one, a plain "drop" empties both hands
+      const dropped = intent.objectName || intent.objectId ? held.filter((obj) => holdsNamed(obj, intent)) : held;
+      if (dropped.length === 0) {
+        return { ok: false, reason: `${robot.name} is not holding ${intent.objectName ?? intent.objectId}` };
+      }
+      return { ok: true, robotId: robot.id, runner: world.runPlan(createDropPlan(robot, dropped), robot.id) };
+    }
+
+    case "stack": {
+      const inHand = heldObjects(world, robot).find((obj) => holdsNamed(obj, intent));
+      const named = Boolean(intent.objectName || intent.objectId);
+
+      // Already in hand: same as "put it on Y"
+      if (inHand) {
+        const drop: Intent = { ...intent, type: "drop", placement: "on", objectName: intent.targetObjectName, objectId: intent.targetObjectId };
+        const result = placeHeld(world, robot, inHand, drop);
+        return result.ok || !result.candidates ? result : { ...result, candidatesFor: "target" };
+      }
+      if (!named) {
+        return { ok: false, reason: `${robot.name} is not holding any object` };
+      }
+
+      const object = resolvePickTarget(world, robot, intent);
+      if (!object.ok) return object;
+
+      const objects = world.getObjects();
+      const support = findReference(objects.filter((obj) => obj.id !== object.object.id), intent.targetObjectName, intent.targetObjectId);
+      if (!support.ok) return { ...support, candidatesFor: "target" };
+
+      const refusal = stackRefusal(object.object, support.object, objects);
+      if (refusal) return { ok: false, reason: refusal };
+
+      const obstacles = sceneObstacles(world.getRobots(), objects, { robotId: robot.id, ignoreObjectIds: stackIds(object.object, objects) });
+      return runPlanned(world, robot, () => createStackPlan(robot, object.object, support.object, obstacles));
+    }
+
+    case "throw": {
+      let thrown = heldObjects(world, robot).find((obj) => holdsNamed(obj, intent));
+      const inHand = thrown !== undefined;
+      if (!thrown) {
+        if (!intent.objectName && !intent.objectId) return { ok: false, reason: `${robot.name} is not holding any object` };
+        const picked = resolvePickTarget(world, robot, intent);
+        if (!picked.ok) return picked;
+        thrown = picked.object;
+      }
+      const object = thrown;
+
+      // Thrown from where it is picked up (or from here when already in hand)
+      const objects = world.getObjects();
+      const from = inHand ? robot.position : object.position;
+      let aim: Vector3;
+      if (intent.targetPosition) {
+        aim = intent.targetPosition;
+      } else if (intent.targetObjectName || intent.targetObjectId) {
+        // "Toward X": land beside X on the thrower's side rather than hitting it
+        const reference = findReference(objects.filter((obj) => obj.id !== object.id), intent.targetObjectName, intent.targetObjectId);
+        if (!reference.ok) return { ...reference, candidatesFor: "target" };
+        const spot = placeNextTo(reference.object, object, objects, from);
+        if (!spot) return { ok: false, reason: `No free spot next to ${reference.object.name}` };
+        aim = spot;
+      } else {
+        const rad = (robot.rotation * Math.PI) / 180;
+        aim = { x: from.x + Math.sin(rad) * DEFAULT_THROW_DISTANCE, y: 0, z: from.z - Math.cos(rad) * DEFAULT_THROW_DISTANCE };
+      }
+      const target = { x: aim.x, y: restingY(object), z: aim.z };
+
+      if (inHand) {
+        return runPlanned(world, robot, () => createThrowPlan(robot, object, target));
+      }
+      const obstacles = sceneObstacles(world.getRobots(), objects, { robotId: robot.id, ignoreObjectIds: stackIds(object, objects) });
+      return runPlanned(world, robot, () => createPickAndThrowPlan(robot, object, target, obstacles));
+    }
+
+    case "push": {
+      if (heldObjectIds(robot).length > 0) {
+        return { ok: false, reason: `${robot.name} needs both hands free to push` };
+      }
+      if (!intent.objectName && !intent.objectId) {
+        return { ok: false, reason: "What should be pushed?" };
+      }
+
+      const found = resolveFreeObject(world, robot, intent);
+      if (!found.ok) return found;
+      const object = found.object;
+      const objects = world.getObjects();
+      const support = objectsBelow(object, objects)[0];
+      if (support) {
+        return { ok: false, reason: `Can't push ${object.name} off ${support.name}` };
+      }
+
+      let aim: Vector3;
+      if (intent.targetPosition) {
+        aim = intent.targetPosition;
+      } else if (intent.targetObjectName || intent.targetObjectId) {
+        // "Toward X": stop beside X on the side it is coming from
+        const reference = findReference(objects.filter((obj) => obj.id !== object.id), intent.targetObjectName, intent.targetObjectId);
+        if (!reference.ok) return { ...reference, candidatesFor: "target" };
+        const spot = placeNextTo(reference.object, object, objects, object.position);
+        if (!spot) return { ok: false, reason: `No free spot next to ${reference.object.name}` };
+        aim = spot;
+      } else {
+        // Straight ahead, away from the robot
+        const dx = object.position.x - robot.position.x;
+        const dz = object.position.z - robot.position.z;
+        const length = Math.hypot(dx, dz) || 1;
+        aim = { x: object.position.x + (dx / length) * DEFAULT_PUSH_DISTANCE, y: 0, z: object.position.z + (dz / length) * DEFAULT_PUSH_DISTANCE };
+      }
+      const target = { x: aim.x, y: object.position.y, z: aim.z };
+
+      // Whatever is stacked on it moves along, so it is not in the way
+      const riding = objectsAbove(object, objects).map((obj) => obj.id);
+      const obstacles = sceneObstacles(world.getRobots(), objects, { robotId: robot.id, ignoreObjectIds: riding });
+      return runPlanned(world, robot, () => createPushPlan(robot, object, target, obstacles));
+    }
+
+    case "wave":
+      return { ok: true, robotId: robot.id, runner: world.runPlan(createWavePlan(intent.side), robot.id) };
+
+    case "clip": {
+      const clip = intent.clipName ? getClip(intent.clipName) : undefined;
+      if (!clip) {
+        const names = listClips().map((c) => c.name).join(", ");
+        return { ok: false, reason: `There is no motion clip called "${intent.clipName ?? ""}" (clips: ${names || "none"})` };
+      }
+      return { ok: true, robotId: robot.id, runner: world.runPlan(createClipPlan(clip), robot.id) };
+    }
+
+    case "reset":
+      getActiveRunner(world, robot.id)?.cancel();
+      // Fingers stay as they are: a hand holding something keeps its grip
+      world.updateRobot(robot.id, (r) => ({
+        ...r,
+        pose: { ...defaultPose(), leftHand: r.pose.leftHand, rightHand: r.pose.rightHand },
+      }));
+      return { ok: true, robotId: robot.id, runner: null };
+
+    case "pose":
+    case "delta": {
+      const value = intent.type === "pose" ? intent.angle : intent.delta;
+      if (!intent.side || !intent.joint || value === undefined) {
+        return { ok: false, reason: `Incomplete joint command: "${intent.text}"` };
+      }
+      const axis = intent.axis ?? (intent.joint === "elbow" || intent.joint === "knee" ? "flex" : "pitch");
+      const { side, joint } = intent;
+
+      const check = applyJointAngle(robot.pose, side, joint, axis, value, intent.type === "delta");
+      if (check.collisions.length > 0) {
+        return { ok: false, reason: `${robot.name} can't move like that: the ${describeCollision(check.collisions[0])}` };
+      }
+
+      getActiveRunner(world, robot.id)?.cancel();
+      world.updateRobot(robot.id, (r) => ({ ...r, pose: check.pose }));
+      return { ok: true, robotId: robot.id, runner: null };
+    }
+
+    default:
+      return { ok: true, robotId: robot.id, runner: null };
+  }
+}
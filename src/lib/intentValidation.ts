@@ -0,0 +1,344 @@
+/**
+ * ============================================
+ * INTENT VALIDATION (인텐트 검증/복구)
+ * ============================================
+ *
+ * LLM이 돌려준 JSON을 Intent[]로 만들기 전에 검사하고, 고칠 수 있는 건 고침
+ *
+ * 복구 (severity "repaired"):
+ * - ```json 코드 펜스 제거
+ * - type 동의어 → IntentType ("grab", "집기" → "pick", "내려놓기" → "drop", "쌓기" → "stack")
+ * - side/joint 한국어 → 영어 ("왼쪽" → "left", "팔꿈치" → "elbow")
+ * - "45도" 같은 문자열 각도 → 숫자, JOINT_LIMITS 범위로 clamp
+ *
+ * 오류 (severity "error"): 해당 intent는 버리고 UI에 메시지 표시
+ * - 알 수 없는 type, pick 대상 없음, joint/angle 없음 등
+ */
+
+import type { Intent, IntentType, Side, Joint, Axis, Vector3, PlacementRelation } from "./types";
+import { clamp, JOINT_LIMITS } from "./clamp";
+
+export interface IntentIssue {
+  index: number | null; // Position in the response array (null = whole response)
+  field?: string;
+  message: string;
+  severity: "error" | "repaired";
+}
+
+export interface IntentValidationResult {
+  intents: Intent[]; // Valid (possibly repaired) intents only
+  issues: IntentIssue[];
+}
+
+/**
+ * Thrown by parser backends when the model output had errors.
+ * `issues` is meant to be shown to the user as-is.
+ */
+export class IntentValidationError extends Error {
+  readonly issues: IntentIssue[];
+
+  constructor(issues: IntentIssue[]) {
+    super(issues.filter((issue) => issue.severity === "error").map(formatIntentIssue).join("; "));
+    this.name = "IntentValidationError";
+    this.issues = issues;
+  }
+}
+
+// Synonym → IntentType (lowercase, spaces/underscores/hyphens removed)
+const TYPE_SYNONYMS: Record<string, IntentType> = {
+  pose: "pose", setpose: "pose", rotate: "pose", setjoint: "pose", joint: "pose", 자세: "pose", 회전: "pose",
+  delta: "delta", offset: "delta", adjust: "delta", 조정: "delta",
+  wave: "wave", hello: "wave", greet: "wave", 흔들기: "wave", 인사: "wave",
+  reset: "reset", home: "reset", 리셋: "reset", 초기화: "reset",
+  pick: "pick", pickup: "pick", grab: "pick", take: "pick", lift: "pick", 줍기: "pick", 집기: "pick", 들기: "pick",
+  drop: "drop", place: "drop", put: "drop", putdown: "drop", release: "drop", 놓기: "drop", 내려놓기: "drop",
+  stack: "stack", stackon: "stack", pileup: "stack", 쌓기: "stack", 올려놓기: "stack",
+  throw: "throw", toss: "throw", fling: "throw", 던지기: "throw",
+  push: "push", shove: "push", slide: "push", 밀기: "push",
+  move: "move", walk: "move", goto: "move", go: "move", 이동: "move",
+  clip: "clip", playclip: "clip", play: "clip", motion: "clip", 클립: "clip", 동작: "clip", 재생: "clip",
+  noop: "noop", none: "noop", nothing: "noop",
+  unknown: "unknown",
+};
+
+const SIDE_SYNONYMS: Record<string, Side> = {
+  left: "left", l: "left", 왼쪽: "left", 왼: "left",
+  right: "right", r: "right", 오른쪽: "right", 오른: "right",
+};
+
+const JOINT_SYNONYMS: Record<string, Joint> = {
+  shoulder: "shoulder", 어깨: "shoulder",
+  elbow: "elbow", 팔꿈치: "elbow",
+  hip: "hip", 고관절: "hip", 엉덩이: "hip",
+  knee: "knee", 무릎: "knee",
+};
+
+const PLACEMENT_SYNONYMS: Record<string, PlacementRelation> = {
+  nextto: "nextTo", beside: "nextTo", near: "nextTo", by: "nextTo", 옆: "nextTo", 옆에: "nextTo",
+  on: "on", ontop: "on", ontopof: "on", onto: "on", top: "on", 위: "on", 위에: "on",
+  back: "back", return: "back", original: "back", 제자리: "back", 원래자리: "back",
+};
+
+function normalizeWord(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function defaultAxis(joint: Joint): Axis {
+  return joint === "elbow" || joint === "knee" ? "flex" : "pitch";
+}
+
+// 어깨와 고관절은 pitch 외에 roll(옆으로 벌리기)도 받음
+function axisFor(joint: Joint, raw: unknown): Axis {
+  const rollable = joint === "shoulder" || joint === "hip";
+  return rollable && raw === "roll" ? "roll" : defaultAxis(joint);
+}
+
+function limitsFor(joint: Joint, axis: Axis): { min: number; max: number } {
+  return (JOINT_LIMITS[joint] as Record<string, { min: number; max: number }>)[axis];
+}
+
+// 45, "45", "45도", "45°" → 45
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string") {
+    const match = value.match(/-?\d+(?:\.\d+)?/);
+    return match ? parseFloat(match[0]) : undefined;
+  }
+  return undefined;
+}
+
+function toVector(value: unknown): Vector3 | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const v = value as Record<string, unknown>;
+  const x = toNumber(v.x);
+  const y = toNumber(v.y) ?? 0;
+  const z = toNumber(v.z);
+  return x !== undefined && z !== undefined ? { x, y, z } : undefined;
+}
+
+export function formatIntentIssue(issue: IntentIssue): string {
+  const where = issue.index !== null ? `#${issue.index + 1}${issue.field ? ` ${issue.field}` : ""}: ` : "";
+  return `${where}${issue.message}`;
+}
+
+// "```json\n[...]\n```" → "[...]"
+export function stripCodeFences(raw: string): string {
+  const trimmed = raw.trim();
+  const fenced = trimmed.match(/^```[\w-]*\s*\n?([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1].trim() : trimmed;
+}
+
+/**
+ * Check one raw value from the model. Returns null (with an error issue) when
+ * it cannot be turned into a usable Intent. `text` is the original command.
+ */
+export function validateIntent(value: unknown, text: string, index = 0): { intent: Intent | null; issues: IntentIssue[] } {
+  const issues: IntentIssue[] = [];
+  const error = (message: string, field?: string) => {
+    issues.push({ index, field, message, severity: "error" });
+    return { intent: null, issues };
+  };
+  const repaired = (message: string, field: string) => issues.push({ index, field, message, severity: "repaired" });
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return error("intent is not an object");
+  }
+  const raw = value as Record<string, unknown>;
+
+  // type
+  if (typeof raw.type !== "string") {
+    return error("missing type", "type");
+  }
+  const type = TYPE_SYNONYMS[normalizeWord(raw.type)];
+  if (!type) {
+    return error(`unknown type "${raw.type}"`, "type");
+  }
+  if (type !== raw.type) {
+    repaired(`"${raw.type}" → "${type}"`, "type");
+  }
+
+  const intent: Intent = { type, text };
+
+  // side
+  if (raw.side !== undefined) {
+    const side = typeof raw.side === "string" ? SIDE_SYNONYMS[normalizeWord(raw.side)] : undefined;
+    if (!side) {
+      return error(`invalid side "${String(raw.side)}"`, "side");
+    }
+    if (side !== raw.side) repaired(`"${raw.side}" → "${side}"`, "side");
+    intent.side = side;
+  }
+
+  // Object references (pick, drop reference or held object, stack source/target)
+  for (const field of ["objectName", "objectId", "targetObjectName", "targetObjectId"] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !value.trim()) {
+      return error(`${field} must be a non-empty string`, field);
+    }
+    intent[field] = value.trim();
+  }
+
+  if (raw.clipName !== undefined) {
+    if (typeof raw.clipName !== "string" || !raw.clipName.trim()) {
+      return error("clipName must be a non-empty string", "clipName");
+    }
+    intent.clipName = raw.clipName.trim();
+  }
+
+  if (raw.robotId !== undefined) {
+    if (typeof raw.robotId !== "string" || !raw.robotId.trim()) {
+      return error("robotId must be a non-empty string", "robotId");
+    }
+    intent.robotId = raw.robotId.trim();
+  }
+
+  // placement (drop next to an object / back where it was)
+  if (raw.placement !== undefined) {
+    const placement = typeof raw.placement === "string" ? PLACEMENT_SYNONYMS[normalizeWord(raw.placement)] : undefined;
+    if (!placement) {
+      return error(`invalid placement "${String(raw.placement)}"`, "placement");
+    }
+    if (placement !== raw.placement) repaired(`"${raw.placement}" → "${placement}"`, "placement");
+    intent.placement = placement;
+  }
+
+  // targetPosition (move / drop at a location)
+  if (raw.targetPosition !== undefined) {
+    const target = toVector(raw.targetPosition);
+    if (!target) {
+      return error("targetPosition needs numeric x and z", "targetPosition");
+    }
+    intent.targetPosition = target;
+  }
+
+  switch (type) {
+    case "pick":
+      // 모든 백엔드 공통: 대상 없는 pick은 없음 (규칙 파서는 "pick it up"을 unknown으로, intentRunner도 거절)
+      if (!intent.objectName && !intent.objectId) {
+        return error("pick needs objectName or objectId", "objectName");
+      }
+      break;
+
+    case "drop":
+      if (intent.placement === "nextTo" && !intent.objectName && !intent.objectId) {
+        return error("placing next to something needs objectName or objectId", "objectName");
+      }
+      if (intent.placement === "on" && !intent.objectName && !intent.objectId) {
+        return error("placing on top of something needs objectName or objectId", "objectName");
+      }
+      break;
+
+    case "push":
+      if (!intent.objectName && !intent.objectId) {
+        return error("push needs objectName or objectId", "objectName");
+      }
+      break;
+
+    case "stack":
+      if (!intent.targetObjectName && !intent.targetObjectId) {
+        return error("stack needs targetObjectName or targetObjectId", "targetObjectName");
+      }
+      break;
+
+    case "move":
+      if (!intent.targetPosition) {
+        return error("move needs targetPosition", "targetPosition");
+      }
+      break;
+
+    case "clip":
+      if (!intent.clipName) {
+        return error("clip needs clipName", "clipName");
+      }
+      break;
+
+    case "wave":
+      if (!intent.side) {
+        intent.side = "right";
+        repaired("defaulted to right", "side");
+      }
+      break;
+
+    case "pose":
+    case "delta": {
+      const joint = typeof raw.joint === "string" ? JOINT_SYNONYMS[normalizeWord(raw.joint)] : undefined;
+      if (!joint) {
+        return error(raw.joint === undefined ? "missing joint" : `invalid joint "${String(raw.joint)}"`, "joint");
+      }
+      if (joint !== raw.joint) repaired(`"${raw.joint}" → "${joint}"`, "joint");
+
+      const axis = axisFor(joint, raw.axis);
+      if (raw.axis !== undefined && raw.axis !== axis) {
+        repaired(`"${String(raw.axis)}" is not an axis of ${joint}, using "${axis}"`, "axis");
+      }
+
+      const field = type === "pose" ? "angle" : "delta";
+      const rawValue = raw[field];
+      const amount = toNumber(rawValue);
+      if (amount === undefined) {
+        return error(`missing or non-numeric ${field}`, field);
+      }
+      if (typeof rawValue !== "number") repaired(`"${String(rawValue)}" → ${amount}`, field);
+
+      // Absolute angles must land inside the joint range; deltas can't exceed its span
+      const { min, max } = limitsFor(joint, axis);
+      const bounded = type === "pose" ? clamp(amount, min, max) : clamp(amount, -(max - min), max - min);
+      if (bounded !== amount) {
+        repaired(`${amount}° clamped to ${bounded}° (${joint} ${axis} limits ${min}..${max})`, field);
+      }
+
+      intent.side = intent.side ?? "right";
+      intent.joint = joint;
+      intent.axis = axis;
+      intent[field] = bounded;
+      break;
+    }
+  }
+
+  return { intent, issues };
+}
+
+// Validate a parsed model response (array, single intent or { intents: [...] })
+export function validateIntents(value: unknown, text: string): IntentValidationResult {
+  let list: unknown[];
+  if (Array.isArray(value)) {
+    list = value;
+  } else if (value && typeof value === "object" && Array.isArray((value as { intents?: unknown }).intents)) {
+    list = (value as { intents: unknown[] }).intents;
+  } else {
+    list = [value];
+  }
+
+  if (list.length === 0) {
+    return { intents: [], issues: [{ index: null, message: "response contained no intents", severity: "error" }] };
+  }
+
+  const intents: Intent[] = [];
+  const issues: IntentIssue[] = [];
+  list.forEach((item, index) => {
+    const result = validateIntent(item, text, index);
+    issues.push(...result.issues);
+    if (result.intent) intents.push(result.intent);
+  });
+  return { intents, issues };
+}
+
+// Raw model output (possibly fenced) → validated intents
+export function parseIntentResponse(raw: string, text: string): IntentValidationResult {
+  const body = stripCodeFences(raw);
+  const issues: IntentIssue[] = [];
+  if (body !== raw.trim()) {
+    issues.push({ index: null, message: "stripped markdown code fence", severity: "repaired" });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { intents: [], issues: [...issues, { index: null, message: "response is not valid JSON", severity: "error" }] };
+  }
+
+  const result = validateIntents(parsed, text);
+  return { intents: result.intents, issues: [...issues, ...result.issues] };
+}
@@ -0,0 +1,186 @@
+import type { ArmJointAngles, Grip, LegJointAngles, NeckAngles, PickableObject, Robot, Side, TorsoAngles, Vector3 } from "./types";
+import { clamp, JOINT_LIMITS } from "./clamp";
+import { GROUND_Y, topOf } from "./placement";
+import { localToTorso, rotateX, rotateZ, SKELETON, STANDING_Y, torsoToLocal, worldToLocal } from "./skeleton";
+import { handsOf } from "./hands";
+
+/**
+ * Analytic inverse kinematics for the two-link limbs (see skeleton.ts for the frames).
+ *
+ * Each limb is a pitch/roll joint followed by a hinge. The hinge angle comes from
+ * the law of cosines on the distance to the target, roll from the sideways
+ * component and pitch from the angle left in the limb's plane. Angles are clamped
+ * to JOINT_LIMITS; `error` is how far the clamped limb ends from the target, so
+ * out-of-reach targets still give the closest pose, pointing at the target.
+ */
+
+export interface ArmSolution extends ArmJointAngles {
+  error: number; // Meters between the hand and the target
+}
+
+export interface LegSolution extends LegJointAngles {
+  error: number; // Meters between the ankle and the target
+}
+
+interface ChainLimits {
+  pitch: { min: number; max: number };
+  roll: { min: number; max: number };
+  flex: { min: number; max: number };
+}
+
+const REACH_SLACK = 0.9; // Crouch until the arm needs this fraction of its length
+const GRASP_HEIGHT = 0.25; // Two-handed grip: hands this far (× size) above the centre
+
+function deg(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+// Wrap to (-180, 180]
+function wrap(degrees: number): number {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
+
+function length(v: Vector3): number {
+  return Math.hypot(v.x, v.y, v.z);
+}
+
+/**
+ * End of the chain relative to its root, in the root frame of a right limb
+ * (+x = outwards). `bend` is +1 when the hinge bends forward (elbow), -1 back (knee).
+ */
+function chainEnd(pitch: number, roll: number, flex: number, upper: number, lower: number, bend: 1 | -1): Vector3 {
+  const lowerDir = rotateX({ x: 0, y: -lower, z: 0 }, bend * flex);
+  return rotateX(rotateZ({ x: 0, y: -upper + lowerDir.y, z: lowerDir.z }, roll), pitch);
+}
+
+function solveChain(target: Vector3, upper: number, lower: number, bend: 1 | -1, limits: ChainLimits) {
+  const distance = clamp(length(target), Math.abs(upper - lower) + 1e-6, upper + lower);
+  const scale = length(target) > 1e-9 ? distance / length(target) : 0;
+  const goal = length(target) > 1e-9 ? { x: target.x * scale, y: target.y * scale, z: target.z * scale } : { x: 0, y: -distance, z: 0 };
+
+  // Hinge from the law of cosines
+  const cosFlex = (distance * distance - upper * upper - lower * lower) / (2 * upper * lower);
+  const flex = clamp(deg(Math.acos(clamp(cosFlex, -1, 1))), limits.flex.min, limits.flex.max);
+
+  // In the limb's plane the end sits `reach` below the root and `forward` ahead of it
+  const reach = upper + lower * Math.cos((flex * Math.PI) / 180);
+  const forward = bend * lower * Math.sin((flex * Math.PI) / 180);
+  const roll = clamp(deg(Math.asin(clamp(goal.x / reach, -1, 1))), limits.roll.min, limits.roll.max);
+
+  // Pitch turns the rolled limb's (y, z) onto the target's (y, z)
+  const planeY = -reach * Math.cos((roll * Math.PI) / 180);
+  const planeZ = -forward;
+  const pitch = clamp(wrap(deg(Math.atan2(goal.z, goal.y) - Math.atan2(planeZ, planeY))), limits.pitch.min, limits.pitch.max);
+
+  const end = chainEnd(pitch, roll, flex, upper, lower, bend);
+  const error = Math.hypot(end.x - target.x, end.y - target.y, end.z - target.z);
+  return { pitch, roll, flex, error };
+}
+
+// Flip x so a left limb can be solved as a right one
+function mirrored(v: Vector3, side: Side): Vector3 {
+  return side === "left" ? { ...v, x: -v.x } : v;
+}
+
+export function shoulderPosition(side: Side): Vector3 {
+  return { x: side === "left" ? -SKELETON.shoulder.x : SKELETON.shoulder.x, y: SKELETON.shoulder.y, z: 0 };
+}
+
+export function hipPosition(side: Side): Vector3 {
+  return { x: side === "left" ? -SKELETON.hip.x : SKELETON.hip.x, y: SKELETON.hip.y, z: 0 };
+}
+
+/**
+ * Arm angles that put the centre of the hand on `target` (robot-local frame),
+ * with the torso leaning as given.
+ */
+export function solveArm(side: Side, target: Vector3, torso?: TorsoAngles): ArmSolution {
+  const inTorso = localToTorso(target, torso);
+  const shoulder = shoulderPosition(side);
+  const relative = mirrored({ x: inTorso.x - shoulder.x, y: inTorso.y - shoulder.y, z: inTorso.z - shoulder.z }, side);
+  const { pitch, roll, flex, error } = solveChain(relative, SKELETON.upperArm, SKELETON.forearm, 1, {
+    pitch: JOINT_LIMITS.shoulder.pitch,
+    roll: JOINT_LIMITS.shoulder.roll,
+    flex: JOINT_LIMITS.elbow.flex,
+  });
+  return { shoulder: { pitch, roll }, elbow: { flex }, error };
+}
+
+// Leg angles that put the ankle on `target` (robot-local frame)
+export function solveLeg(side: Side, target: Vector3): LegSolution {
+  const hip = hipPosition(side);
+  const relative = mirrored({ x: target.x - hip.x, y: target.y - hip.y, z: target.z - hip.z }, side);
+  const { pitch, roll, flex, error } = solveChain(relative, SKELETON.thigh, SKELETON.shin, -1, {
+    pitch: JOINT_LIMITS.hip.pitch,
+    roll: JOINT_LIMITS.hip.roll,
+    flex: JOINT_LIMITS.knee.flex,
+  });
+  return { hip: { pitch, roll }, knee: { flex }, error };
+}
+
+/**
+ * Neck angles that point the eyes at `target` (world frame), from the torso as
+ * it is posed; clamped to JOINT_LIMITS when the target is behind or straight below.
+ */
+export function lookAt(robot: Robot, target: Vector3): NeckAngles {
+  const inTorso = localToTorso(worldToLocal(target, robot.position, robot.rotation), robot.pose.torso);
+  const d = { x: inTorso.x, y: inTorso.y - SKELETON.neck - SKELETON.eyes, z: inTorso.z };
+  return {
+    yaw: clamp(deg(Math.atan2(d.x, -d.z)), JOINT_LIMITS.neck.yaw.min, JOINT_LIMITS.neck.yaw.max),
+    pitch: clamp(deg(Math.atan2(-d.y, Math.hypot(d.x, d.z))), JOINT_LIMITS.neck.pitch.min, JOINT_LIMITS.neck.pitch.max),
+  };
+}
+
+/**
+ * Where the hands go to pick `object` up (world frame). One hand takes it from
+ * above; two hands hold its sides a little above the middle.
+ */
+export function handTargets(object: PickableObject, robot: Robot, grip: Grip): Partial<Record<Side, Vector3>> {
+  if (grip !== "both") {
+    return { [grip]: { x: object.position.x, y: topOf(object) + SKELETON.handHalfWidth, z: object.position.z } };
+  }
+
+  const rad = (robot.rotation * Math.PI) / 180;
+  const right = { x: Math.cos(rad), z: Math.sin(rad) };
+  const offset = object.size / 2 + SKELETON.handHalfWidth;
+  const y = object.position.y + object.size * GRASP_HEIGHT;
+  const targets: Partial<Record<Side, Vector3>> = {};
+  handsOf(grip).forEach((side) => {
+    const sign = side === "right" ? 1 : -1;
+    targets[side] = { x: object.position.x + right.x * offset * sign, y, z: object.position.z + right.z * offset * sign };
+  });
+  return targets;
+}
+
+/**
+ * Crouch for reaching the hand targets (world frame): how far the body comes down
+ * and the leg angles that keep both feet flat on the ground below the hips.
+ * Goes only as low as the knees allow; the arms make up the rest.
+ */
+export function crouchFor(
+  robot: Robot,
+  targets: Partial<Record<Side, Vector3>>,
+  torso: TorsoAngles
+): { y: number; leftLeg: LegSolution; rightLeg: LegSolution } {
+  const ankleY = GROUND_Y + SKELETON.footHeight / 2;
+  // Hip to ankle with the knees bent as far as they go
+  const kneeMax = (JOINT_LIMITS.knee.flex.max * Math.PI) / 180;
+  const deepest = Math.sqrt(SKELETON.thigh ** 2 + SKELETON.shin ** 2 + 2 * SKELETON.thigh * SKELETON.shin * Math.cos(kneeMax));
+  const lowest = ankleY + deepest - SKELETON.hip.y;
+
+  // Highest body height that still leaves every hand REACH_SLACK of its arm from its target
+  const armLength = (SKELETON.upperArm + SKELETON.forearm) * REACH_SLACK;
+  let y = STANDING_Y;
+  (Object.entries(targets) as [Side, Vector3][]).forEach(([side, target]) => {
+    const local = worldToLocal(target, { ...robot.position, y: 0 }, robot.rotation);
+    const shoulder = torsoToLocal(shoulderPosition(side), torso);
+    const across = Math.hypot(local.x - shoulder.x, local.z - shoulder.z);
+    const drop = Math.sqrt(Math.max(0, armLength * armLength - across * across));
+    y = Math.min(y, local.y + drop - shoulder.y);
+  });
+  y = clamp(y, lowest, STANDING_Y);
+
+  const leg = (side: Side) => solveLeg(side, { x: hipPosition(side).x, y: ankleY - y, z: 0 });
+  return { y, leftLeg: leg("left"), rightLeg: leg("right") };
+}
@@ -1,4 +1,5 @@
-import type { FullPose, Vector3 } from "./types";
+import type { FullPose, Grip, HandJointAngles, NeckAngles, TorsoAngles, Vector3 } from "./types";
+import { OPEN_HAND } from "./grasp";
 
 // Easing functions
 export const ease = {
@@ -23,6 +24,8 @@ export const ease = {
   }
 };
 
+export type EasingName = keyof typeof ease;
+
 // Linear interpolation
 export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
@@ -37,6 +40,27 @@ export function lerpVec3(a: Vector3, b: Vector3, t: number): Vector3 {
   };
 }
 
+const NEUTRAL_TORSO: TorsoAngles = { pitch: 0, roll: 0 };
+export const NEUTRAL_NECK: NeckAngles = { yaw: 0, pitch: 0 };
+
+function lerpTorso(a: TorsoAngles, b: TorsoAngles, t: number): TorsoAngles {
+  const torso: TorsoAngles = { pitch: lerp(a.pitch, b.pitch, t), roll: lerp(a.roll, b.roll, t) };
+  if (a.yaw !== undefined || b.yaw !== undefined) torso.yaw = lerp(a.yaw ?? 0, b.yaw ?? 0, t);
+  return torso;
+}
+
+export function lerpNeck(a: NeckAngles, b: NeckAngles, t: number): NeckAngles {
+  return { yaw: lerp(a.yaw, b.yaw, t), pitch: lerp(a.pitch, b.pitch, t) };
+}
+
+// Finger lerp
+export function lerpHand(a: HandJointAngles, b: HandJointAngles, t: number): HandJointAngles {
+  return {
+    thumb: { flex: lerp(a.thumb.flex, b.thumb.flex, t), opposition: lerp(a.thumb.opposition, b.thumb.opposition, t) },
+    fingers: { flex: lerp(a.fingers.flex, b.fingers.flex, t), spread: lerp(a.fingers.spread, b.fingers.spread, t) },
+  };
+}
+
 // Pose lerp
 export function lerpPose(a: FullPose, b: FullPose, t: number): FullPose {
   const result: FullPose = {
@@ -70,32 +94,56 @@ export function lerpPose(a: FullPose, b: FullPose, t: number): FullPose {
     },
   };
 
-  // Lerp torso if both poses have it
-  if (a.torso && b.torso) {
-    result.torso = {
-      pitch: lerp(a.torso.pitch, b.torso.pitch, t),
-      roll: lerp(a.torso.roll, b.torso.roll, t),
-    };
-  } else if (a.torso || b.torso) {
-    // If only one has torso, lerp from/to neutral position
-    const neutralTorso = { pitch: 0, roll: 0 };
-    const fromTorso = a.torso || neutralTorso;
-    const toTorso = b.torso || neutralTorso;
-    result.torso = {
-      pitch: lerp(fromTorso.pitch, toTorso.pitch, t),
-      roll: lerp(fromTorso.roll, toTorso.roll, t),
+  // Lerp torso if either pose has it (from/to upright when only one does)
+  if (a.torso || b.torso) {
+    result.torso = lerpTorso(a.torso ?? NEUTRAL_TORSO, b.torso ?? NEUTRAL_TORSO, t);
+  }
+
+  // Same for the wrists and the neck (straight / looking ahead when unset)
+  (["leftArm", "rightArm"] as const).forEach((arm) => {
+    const from = a[arm].wrist;
+    const to = b[arm].wrist;
+    if (!from && !to) return;
+    const straight = { flex: 0, twist: 0 };
+    result[arm].wrist = {
+      flex: lerp((from ?? straight).flex, (to ?? straight).flex, t),
+      twist: lerp((from ?? straight).twist, (to ?? straight).twist, t),
     };
+  });
+  if (a.neck || b.neck) {
+    result.neck = lerpNeck(a.neck ?? NEUTRAL_NECK, b.neck ?? NEUTRAL_NECK, t);
+  }
+
+  // Fingers only move when the target sets them, so arm motions keep a grip closed
+  for (const key of ["leftHand", "rightHand"] as const) {
+    const to = b[key];
+    if (to) result[key] = lerpHand(a[key] ?? OPEN_HAND, to, t);
+    else if (a[key]) result[key] = a[key];
   }
 
   return result;
 }
 
+// Left/right swapped: a right-handed pose done with the left hand
+export function mirrorPose(pose: FullPose): FullPose {
+  return {
+    torso: pose.torso ? { pitch: pose.torso.pitch, roll: -pose.torso.roll, yaw: pose.torso.yaw === undefined ? undefined : -pose.torso.yaw } : undefined,
+    neck: pose.neck ? { yaw: -pose.neck.yaw, pitch: pose.neck.pitch } : undefined,
+    leftArm: pose.rightArm,
+    rightArm: pose.leftArm,
+    leftLeg: pose.rightLeg,
+    rightLeg: pose.leftLeg,
+    leftHand: pose.rightHand,
+    rightHand: pose.leftHand,
+  };
+}
+
 // Keyframe definition
 export interface Keyframe {
   time: number; // 0-1 normalized time
   pose: FullPose;
   position?: Vector3;
-  easing?: (t: number) => number;
+  easing?: EasingName; // Into this keyframe from the previous one (default easeInOut)
 }
 
 // Motion sequence
@@ -105,9 +153,11 @@ export interface MotionSequence {
   loop?: boolean;
 }
 
-// Evaluate pose at specific time in sequence
+// Evaluate pose at specific time in sequence (a looping one starts over after `duration`)
 export function evaluateMotion(sequence: MotionSequence, elapsedMs: number): { pose: FullPose; position?: Vector3 } {
-  const t = Math.min(elapsedMs / sequence.duration, 1);
+  const t = sequence.loop
+    ? (elapsedMs % sequence.duration) / sequence.duration
+    : Math.min(elapsedMs / sequence.duration, 1);
 
   // Find surrounding keyframes
   let prevFrame = sequence.keyframes[0];
@@ -121,9 +171,9 @@ export function evaluateMotion(sequence: MotionSequence, elapsedMs: number): { p
     }
   }
 
-  // Interpolate between keyframes
-  const frameT = (t - prevFrame.time) / (nextFrame.time - prevFrame.time || 1);
-  const easingFn = nextFrame.easing || ease.easeInOut;
+  // Interpolate between keyframes (holding the first/last one outside their span)
+  const frameT = Math.min(Math.max((t - prevFrame.time) / (nextFrame.time - prevFrame.time || 1), 0), 1);
+  const easingFn = ease[nextFrame.easing ?? "easeInOut"];
   const easedT = easingFn(frameT);
 
   const pose = lerpPose(prevFrame.pose, nextFrame.pose, easedT);
@@ -206,27 +256,79 @@ export const MOTIONS = {
   }),
 
   // Reaching down (arms extend forward and down)
-  // Torso stays bent forward, arm extends down
-  reachDown: (): FullPose => ({
-    torso: { pitch: 55, roll: 0 }, // Even MORE forward to reach (increased from 35)
-    leftArm: { shoulder: { pitch: 30, roll: 0 }, elbow: { flex: 10 } },
-    rightArm: { shoulder: { pitch: 120, roll: 0 }, elbow: { flex: 30 } }, // Right arm reaches DOWN
-    leftLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
-    rightLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
-  }),
+  // Torso stays bent forward; one arm reaches DOWN, or both spread apart to take a large object by its sides
+  reachDown: (grip: Grip = "right"): FullPose => {
+    if (grip === "left") return mirrorPose(MOTIONS.reachDown("right"));
+    if (grip === "both") {
+      return {
+        torso: { pitch: 55, roll: 0 },
+        leftArm: { shoulder: { pitch: 110, roll: 20 }, elbow: { flex: 20 } },
+        rightArm: { shoulder: { pitch: 110, roll: 20 }, elbow: { flex: 20 } },
+        leftLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
+        rightLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
+      };
+    }
+
+    return {
+      torso: { pitch: 55, roll: 0 }, // Even MORE forward to reach (increased from 35)
+      leftArm: { shoulder: { pitch: 30, roll: 0 }, elbow: { flex: 10 } },
+      rightArm: { shoulder: { pitch: 120, roll: 0 }, elbow: { flex: 30 } }, // Right arm reaches DOWN
+      leftLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
+      rightLeg: { hip: { pitch: 70, roll: 0 }, knee: { flex: 110 } },
+    };
+  },
 
   // Holding object comfortably (with slight back lean for heavy objects)
-  holding: (weight: number = 0.3): FullPose => {
-    // Weight 0.25-0.35: normal, >0.35: heavy (lean back more)
-    const isHeavy = weight > 0.35;
+  // One hand carries with the other arm relaxed; two hands hold it in front of the chest, arms apart
+  holding: (mass: number = 1, grip: Grip = "right"): FullPose => {
+    if (grip === "left") return mirrorPose(MOTIONS.holding(mass, "right"));
+
+    // Up to 2 kg: normal, heavier: lean back more to counter the load
+    const isHeavy = mass > 2;
     const backLean = isHeavy ? -8 : -3; // Negative pitch = lean back
+    const carryArm = grip === "both"
+      ? { shoulder: { pitch: 45, roll: 15 }, elbow: { flex: 60 } }
+      : { shoulder: { pitch: 40, roll: 0 }, elbow: { flex: 50 } };
 
     return {
       torso: { pitch: backLean, roll: 0 },
-      leftArm: { shoulder: { pitch: 10, roll: 0 }, elbow: { flex: 20 } },
-      rightArm: { shoulder: { pitch: 40, roll: 0 }, elbow: { flex: 50 } },
+      leftArm: grip === "both" ? carryArm : { shoulder: { pitch: 10, roll: 0 }, elbow: { flex: 20 } },
+      rightArm: carryArm,
       leftLeg: { hip: { pitch: 0, roll: 0 }, knee: { flex: 0 } },
       rightLeg: { hip: { pitch: 0, roll: 0 }, knee: { flex: 0 } },
     };
   },
+
+  // Overhand throw, cocked: throwing arm up and back behind the head, weight on the back leg
+  windUp: (): FullPose => ({
+    torso: { pitch: -10, roll: -5 },
+    leftArm: { shoulder: { pitch: 60, roll: 10 }, elbow: { flex: 20 } }, // Points at the target for balance
+    rightArm: { shoulder: { pitch: 160, roll: 20 }, elbow: { flex: 110 } },
+    leftLeg: { hip: { pitch: 20, roll: 0 }, knee: { flex: 15 } },
+    rightLeg: { hip: { pitch: -10, roll: 0 }, knee: { flex: 10 } },
+  }),
+
+  // Arm whipped forward and extended at the release point, torso following through
+  throwRelease: (): FullPose => ({
+    torso: { pitch: 20, roll: 5 },
+    leftArm: { shoulder: { pitch: 10, roll: 10 }, elbow: { flex: 30 } },
+    rightArm: { shoulder: { pitch: 70, roll: 0 }, elbow: { flex: 10 } },
+    leftLeg: { hip: { pitch: 25, roll: 0 }, knee: { flex: 20 } },
+    rightLeg: { hip: { pitch: -15, roll: 0 }, knee: { flex: 5 } },
+  }),
+
+  // Pushing: leaning into the object, both palms forward, short shuffling steps (phase 0-1 like walkCycle)
+  pushing: (phase: number = 0): FullPose => {
+    const legSwing = Math.sin(phase * Math.PI * 2) * 20;
+    const legLift = Math.max(0, Math.sin(phase * Math.PI * 2)) * 30;
+    const oppositeLegLift = Math.max(0, -Math.sin(phase * Math.PI * 2)) * 30;
+
+    return {
+      torso: { pitch: 25, roll: 0 },
+      leftArm: { shoulder: { pitch: 80, roll: 10 }, elbow: { flex: 35 } },
+      rightArm: { shoulder: { pitch: 80, roll: 10 }, elbow: { flex: 35 } },
+      leftLeg: { hip: { pitch: 15 + legSwing, roll: 0 }, knee: { flex: 20 + legLift } },
+      rightLeg: { hip: { pitch: 15 - legSwing, roll: 0 }, knee: { flex: 20 + oppositeLegLift } },
+    };
+  },
 };
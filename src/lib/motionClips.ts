@@ -0,0 +1,201 @@
+import type { ArmJointAngles, FullPose, HandJointAngles, LegJointAngles } from "./types";
+import { ease, type EasingName, type Keyframe, type MotionSequence } from "./motion";
+import builtinClips from "../clips/builtin.json";
+
+/**
+ * Named motion clips, authored as JSON instead of TypeScript.
+ *
+ * A clip is a MotionSequence with a name: keyframes at normalized times, each
+ * naming the `ease` function used to get there from the previous one. The clips
+ * in clips/builtin.json are registered when this module loads; more can be
+ * imported at run time (replacing any clip of the same name) and exported back
+ * to JSON. A robot's current pose can be exported as a keyframe to paste into a
+ * clip. Playback starts from wherever the robot is, so a clip's first keyframe
+ * usually sits a little after time 0 to blend in.
+ */
+
+export interface MotionClip extends MotionSequence {
+  name: string; // "bow"; looked up case-insensitively
+  description?: string;
+}
+
+// Thrown when clip JSON is malformed; the message says where
+export class MotionClipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MotionClipError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const clips = new Map<string, MotionClip>();
+
+function clipKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEasing(value: unknown): value is EasingName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ease, value);
+}
+
+// { pitch: 10, roll: 0 }: every key a number, the optional ones may be left out
+function readAngles<K extends string>(value: unknown, where: string, keys: K[], optional: K[] = []): Record<K, number> {
+  if (!isObject(value)) throw new MotionClipError(`${where}: expected an object`);
+  const angles = {} as Record<K, number>;
+  for (const key of keys) {
+    const angle = value[key];
+    if (angle === undefined && optional.includes(key)) continue;
+    if (typeof angle !== "number" || !Number.isFinite(angle)) {
+      throw new MotionClipError(`${where}.${key}: expected a number of degrees`);
+    }
+    angles[key] = angle;
+  }
+  return angles;
+}
+
+// A FullPose rebuilt from untrusted JSON (unknown fields are dropped)
+function readPose(value: unknown, where: string): FullPose {
+  if (!isObject(value)) throw new MotionClipError(`${where}: expected a pose object`);
+  const part = (key: string): RawObject => {
+    const raw = value[key];
+    if (!isObject(raw)) throw new MotionClipError(`${where}.${key}: expected an object`);
+    return raw;
+  };
+
+  const arm = (key: "leftArm" | "rightArm"): ArmJointAngles => {
+    const raw = part(key);
+    const angles: ArmJointAngles = {
+      shoulder: readAngles(raw.shoulder, `${where}.${key}.shoulder`, ["pitch", "roll"], ["roll"]),
+      elbow: readAngles(raw.elbow, `${where}.${key}.elbow`, ["flex"]),
+    };
+    if (raw.wrist !== undefined) angles.wrist = readAngles(raw.wrist, `${where}.${key}.wrist`, ["flex", "twist"]);
+    return angles;
+  };
+  const leg = (key: "leftLeg" | "rightLeg"): LegJointAngles => {
+    const raw = part(key);
+    return {
+      hip: readAngles(raw.hip, `${where}.${key}.hip`, ["pitch", "roll"], ["roll"]),
+      knee: readAngles(raw.knee, `${where}.${key}.knee`, ["flex"]),
+    };
+  };
+  const hand = (key: "leftHand" | "rightHand"): HandJointAngles => {
+    const raw = part(key);
+    return {
+      thumb: readAngles(raw.thumb, `${where}.${key}.thumb`, ["flex", "opposition"]),
+      fingers: readAngles(raw.fingers, `${where}.${key}.fingers`, ["flex", "spread"]),
+    };
+  };
+
+  // Built in the order the JSON is written: torso and neck, limbs, hands
+  const pose = {} as FullPose;
+  if (value.torso !== undefined) pose.torso = readAngles(value.torso, `${where}.torso`, ["pitch", "roll", "yaw"], ["yaw"]);
+  if (value.neck !== undefined) pose.neck = readAngles(value.neck, `${where}.neck`, ["yaw", "pitch"]);
+  pose.leftArm = arm("leftArm");
+  pose.rightArm = arm("rightArm");
+  pose.leftLeg = leg("leftLeg");
+  pose.rightLeg = leg("rightLeg");
+  if (value.leftHand !== undefined) pose.leftHand = hand("leftHand");
+  if (value.rightHand !== undefined) pose.rightHand = hand("rightHand");
+  return pose;
+}
+
+function readKeyframe(value: unknown, where: string, previousTime: number): Keyframe {
+  if (!isObject(value)) throw new MotionClipError(`${where}: expected a keyframe object`);
+  const { time, easing } = value;
+  if (typeof time !== "number" || time < 0 || time > 1) {
+    throw new MotionClipError(`${where}.time: expected a number from 0 to 1`);
+  }
+  if (time < previousTime) throw new MotionClipError(`${where}.time: keyframes must be in time order`);
+  if (easing !== undefined && !isEasing(easing)) {
+    throw new MotionClipError(`${where}.easing: "${String(easing)}" is not one of ${Object.keys(ease).join(", ")}`);
+  }
+
+  const pose = readPose(value.pose, `${where}.pose`);
+  return easing !== undefined ? { time, easing, pose } : { time, pose };
+}
+
+function readClip(value: unknown, where: string): MotionClip {
+  if (!isObject(value)) throw new MotionClipError(`${where}: expected a clip object`);
+  const { name, description, duration, loop, keyframes } = value;
+  if (typeof name !== "string" || !name.trim()) throw new MotionClipError(`${where}.name: expected a non-empty string`);
+  const at = `clip "${name.trim()}"`;
+  if (description !== undefined && typeof description !== "string") {
+    throw new MotionClipError(`${at}.description: expected a string`);
+  }
+  if (typeof duration !== "number" || !(duration > 0)) {
+    throw new MotionClipError(`${at}.duration: expected a positive number of milliseconds`);
+  }
+  if (loop !== undefined && typeof loop !== "boolean") throw new MotionClipError(`${at}.loop: expected true or false`);
+  if (!Array.isArray(keyframes) || keyframes.length === 0) {
+    throw new MotionClipError(`${at}.keyframes: expected at least one keyframe`);
+  }
+
+  let previousTime = 0;
+  const frames = keyframes.map((frame, index) => {
+    const keyframe = readKeyframe(frame, `${at} keyframe ${index + 1}`, previousTime);
+    previousTime = keyframe.time;
+    return keyframe;
+  });
+
+  return {
+    name: name.trim(),
+    ...(description ? { description } : {}),
+    duration,
+    ...(loop ? { loop } : {}),
+    keyframes: frames,
+  };
+}
+
+/** Clips in a JSON document: an array of clips, or a single clip object. */
+export function parseClips(json: string): MotionClip[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new MotionClipError(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((clip, index) => readClip(clip, `clip ${index + 1}`));
+}
+
+export function registerClip(clip: MotionClip): void {
+  clips.set(clipKey(clip.name), clip);
+}
+
+/** Parse and register every clip in `json`; nothing is registered if any clip is malformed. */
+export function importClips(json: string): MotionClip[] {
+  const imported = parseClips(json);
+  imported.forEach(registerClip);
+  return imported;
+}
+
+export function getClip(name: string): MotionClip | undefined {
+  return clips.get(clipKey(name));
+}
+
+export function listClips(): MotionClip[] {
+  return [...clips.values()];
+}
+
+export function exportClips(selected: MotionClip[] = listClips()): string {
+  return JSON.stringify(selected, null, 2);
+}
+
+// A copy of `pose` as a clip keyframe (unset parts stay unset)
+export function poseToKeyframe(pose: FullPose, time: number, easing?: EasingName): Keyframe {
+  const copy = readPose(pose, "pose");
+  return easing ? { time, easing, pose: copy } : { time, pose: copy };
+}
+
+/** `pose` as keyframe JSON to paste into a clip, angles rounded to 0.1°. */
+export function exportKeyframe(pose: FullPose, time = 1, easing: EasingName = "easeInOut"): string {
+  const round = (key: string, value: unknown) => (typeof value === "number" && key !== "time" ? Math.round(value * 10) / 10 : value);
+  return JSON.stringify(poseToKeyframe(pose, time, easing), round, 2);
+}
+
+builtinClips.forEach((clip, index) => registerClip(readClip(clip, `builtin clip ${index + 1}`)));
@@ -1,88 +1,83 @@
 import OpenAI from "openai";
 import type { Intent } from "./types";
+import type { IntentParserBackend } from "./parserBackends";
+import { buildSystemPrompt, type SceneContext } from "./prompt";
+import { parseIntentResponse, formatIntentIssue, IntentValidationError } from "./intentValidation";
 
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true, // Only for demo purposes
-});
-
-export async function parseCommandWithGPT(text: string): Promise<Intent[]> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a robot command parser. Convert natural language commands (Korean/English) into structured robot intents.
-
-Available objects in scene:
-- "red box" (빨간 상자, 빨간색, red, 빨강)
-- "blue ball" (파란 공, 파란색, blue, 파랑)
-- "green cylinder" (초록 실린더, 초록색, green, 초록)
-- "yellow cube" (노란 상자, 노란색, yellow, 노랑)
-- "purple sphere" (보라 공, 보라색, purple, 보라)
+export interface ChatCompletionBackendOptions {
+  name?: string;
+  apiKey?: string;
+  baseURL?: string; // Any OpenAI-compatible server, e.g. http://localhost:8787/v1
+  model?: string;
+}
 
-Available commands:
-- pick <object>: Pick up object by name or color (빨간색, 초록색 = just color name)
-- drop: Drop held object (내려놓다, 내리다, 놔, 내려놔)
-- wave [side]: Wave arm
-- reset: Return to default pose
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
 
-IMPORTANT:
-1. For MULTIPLE actions in one command (A하고 B해, A 내려놓고 B 들어), return ARRAY with ALL actions in sequence
-2. When user says only color (빨간색, 초록색), use objectName with just the color
-3. Sequential commands examples:
-   - "빨간색 내려놓고 초록색 주워" = [drop, pick green]
-   - "파란색 들고 빨간색 내려놔" = [pick blue, drop]
-   - "빨간색 놓고 파란색 집어" = [drop, pick blue]
-4. The order matters! Execute in the order user specifies
+/**
+ * Intent parser backed by a chat-completions endpoint.
+ *
+ * Works against OpenAI itself or any server that speaks the same API
+ * (llama.cpp / Ollama style local servers, or `npm run mock-llm`).
+ * The system prompt is rebuilt from the live scene on every call. Responses
+ * are validated/repaired; anything unusable throws IntentValidationError.
+ */
+export function createChatCompletionBackend(options: ChatCompletionBackendOptions = {}): IntentParserBackend {
+  const model = options.model || DEFAULT_OPENAI_MODEL;
+  let client: OpenAI | null = null;
 
-Respond ONLY with valid JSON ARRAY:
-[
-  {
-    "type": "pick" | "drop" | "wave" | "reset" | "pose" | "unknown",
-    "objectName"?: string (for pick - can be "red", "green", "blue", "red box", etc.),
-    "side"?: "left" | "right" (for wave),
-    "text": "original input"
-  }
-]
+  // Created lazily: the OpenAI constructor throws when no key is set
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: options.apiKey || (options.baseURL ? "local" : undefined),
+        baseURL: options.baseURL,
+        dangerouslyAllowBrowser: true, // Only for demo purposes
+      });
+    }
+    return client;
+  };
 
-Examples:
-Single commands:
-- "초록색 주워" -> [{"type":"pick","objectName":"green","text":"초록색 주워"}]
-- "빨간색 집어" -> [{"type":"pick","objectName":"red","text":"빨간색 집어"}]
-- "pick up the red box" -> [{"type":"pick","objectName":"red box","text":"pick up the red box"}]
-- "파란 공 주워" -> [{"type":"pick","objectName":"blue ball","text":"파란 공 주워"}]
-- "내려놓아" -> [{"type":"drop","text":"내려놓아"}]
-- "drop" -> [{"type":"drop","text":"drop"}]
+  return {
+    name: options.name || (options.baseURL ? `openai-compatible (${model})` : `openai (${model})`),
+    parse: async (text, context) => parseCommandWithChatCompletion(getClient(), model, text, context),
+  };
+}
 
-Multiple commands (순차 실행):
-- "빨간색 내려놓고 초록색 주워" -> [{"type":"drop","text":"빨간색 내려놓고 초록색 주워"},{"type":"pick","objectName":"green","text":"빨간색 내려놓고 초록색 주워"}]
-- "파란색 들고 빨간색 놓아" -> [{"type":"pick","objectName":"blue","text":"파란색 들고 빨간색 놓아"},{"type":"drop","text":"파란색 들고 빨간색 놓아"}]
-- "초록색 내리고 파란색 들어" -> [{"type":"drop","text":"초록색 내리고 파란색 들어"},{"type":"pick","objectName":"blue","text":"초록색 내리고 파란색 들어"}]
-- "drop and pick up blue" -> [{"type":"drop","text":"drop and pick up blue"},{"type":"pick","objectName":"blue","text":"drop and pick up blue"}]
-- "wave right" -> [{"type":"wave","side":"right","text":"wave right"}]`,
-        },
-        {
-          role: "user",
-          content: text,
-        },
-      ],
-      temperature: 0.1,
-    });
+async function parseCommandWithChatCompletion(
+  client: OpenAI,
+  model: string,
+  text: string,
+  context?: SceneContext
+): Promise<Intent[]> {
+  const response = await client.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: buildSystemPrompt(context),
+      },
+      {
+        role: "user",
+        content: text,
+      },
+    ],
+    temperature: 0.1,
+  });
 
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) {
-      return [{ type: "unknown", text }];
-    }
+  const content = response.choices[0]?.message?.content?.trim();
+  if (!content) {
+    throw new IntentValidationError([{ index: null, message: "empty response", severity: "error" }]);
+  }
 
-    // Parse JSON response
-    const parsed = JSON.parse(content);
-    // Ensure it's an array
-    const intents = Array.isArray(parsed) ? parsed : [parsed];
-    return intents.map(intent => ({ ...intent, text }));
-  } catch (error) {
-    console.error("GPT parsing error:", error);
-    return [{ type: "unknown", text }];
+  // Validate and repair before anything reaches the executor
+  const { intents, issues } = parseIntentResponse(content, text);
+  const repairs = issues.filter((issue) => issue.severity === "repaired");
+  if (repairs.length > 0) {
+    console.warn("Repaired parser output:", repairs.map(formatIntentIssue));
+  }
+  if (issues.some((issue) => issue.severity === "error")) {
+    throw new IntentValidationError(issues);
   }
+  return intents;
 }
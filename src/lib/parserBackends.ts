@@ -0,0 +1,127 @@
+/**
+ * ============================================
+ * PARSER BACKENDS (파서 백엔드)
+ * ============================================
+ *
+ * 자연어 → Intent[] 변환기를 교체 가능하게 만드는 인터페이스
+ *
+ * 백엔드 종류 (VITE_PARSER_BACKEND):
+ * - "openai":            OpenAI API (VITE_OPENAI_API_KEY 필요)
+ * - "openai-compatible": OpenAI 호환 서버 (VITE_LLM_BASE_URL, 예: llama.cpp/Ollama, `npm run mock-llm`)
+ * - "rules":             오프라인 규칙 파서 (네트워크 없음)
+ * - "replay":            녹화된 fixture 재생 (CI용, 네트워크 없음, 녹화에 없는 명령은 규칙 파서로)
+ *
+ * 설정이 없으면: API 키가 있으면 openai, 없으면 rules
+ *
+ * parse()의 context(현재 씬)는 LLM 백엔드가 프롬프트에 사용 (rules/replay는 무시)
+ */
+
+import type { Intent } from "./types";
+import type { SceneContext } from "./prompt";
+import { parseCommandWithRules } from "./ruleParser";
+import { createChatCompletionBackend } from "./openai";
+import parserFixtures from "../fixtures/parserFixtures.json";
+
+export interface IntentParserBackend {
+  readonly name: string;
+  parse(text: string, context?: SceneContext): Promise<Intent[]>;
+}
+
+export type ParserBackendKind = "openai" | "openai-compatible" | "rules" | "replay";
+
+export interface ParserBackendConfig {
+  kind: ParserBackendKind;
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  fixtures?: ParserFixtures;
+}
+
+// Recorded parser output, keyed by the exact command text
+export type ParserFixtures = Record<string, Intent[]>;
+
+const PLACEHOLDER_API_KEY = "your_openai_api_key_here";
+
+export function createRuleBackend(): IntentParserBackend {
+  return {
+    name: "rules",
+    parse: async (text) => parseCommandWithRules(text),
+  };
+}
+
+// Replays recorded output; commands with no recording go to the rule parser
+export function createReplayBackend(fixtures: ParserFixtures): IntentParserBackend {
+  return {
+    name: "replay",
+    parse: async (text) => {
+      const recorded = fixtures[text.trim()];
+      if (!recorded) return parseCommandWithRules(text);
+      return recorded.map((intent) => ({ ...intent, text }));
+    },
+  };
+}
+
+/**
+ * Wraps a backend and records everything it returns.
+ * `getRecordings()` yields fixtures for createReplayBackend (save as JSON).
+ */
+export function createRecordingBackend(inner: IntentParserBackend): IntentParserBackend & { getRecordings(): ParserFixtures } {
+  const recordings: ParserFixtures = {};
+  return {
+    name: `${inner.name} (recording)`,
+    parse: async (text, context) => {
+      const intents = await inner.parse(text, context);
+      recordings[text.trim()] = intents.map((intent) => ({ ...intent }));
+      return intents;
+    },
+    getRecordings: () => ({ ...recordings }),
+  };
+}
+
+export function createParserBackend(config: ParserBackendConfig): IntentParserBackend {
+  switch (config.kind) {
+    case "openai":
+      return createChatCompletionBackend({ apiKey: config.apiKey, model: config.model });
+    case "openai-compatible":
+      return createChatCompletionBackend({ apiKey: config.apiKey, baseURL: config.baseURL, model: config.model });
+    case "replay":
+      return createReplayBackend(config.fixtures ?? (parserFixtures as ParserFixtures));
+    case "rules":
+      return createRuleBackend();
+  }
+}
+
+/**
+ * Read backend settings from env vars (import.meta.env in the app, process.env in scripts).
+ */
+export function parserConfigFromEnv(env: Record<string, string | undefined>): ParserBackendConfig {
+  const apiKey = env.VITE_OPENAI_API_KEY && env.VITE_OPENAI_API_KEY !== PLACEHOLDER_API_KEY
+    ? env.VITE_OPENAI_API_KEY
+    : undefined;
+  const requested = env.VITE_PARSER_BACKEND as ParserBackendKind | undefined;
+  const known: ParserBackendKind[] = ["openai", "openai-compatible", "rules", "replay"];
+
+  let kind: ParserBackendKind;
+  if (requested && known.includes(requested)) {
+    kind = requested;
+  } else {
+    if (requested) console.warn(`Unknown VITE_PARSER_BACKEND "${requested}", using default`);
+    kind = apiKey ? "openai" : "rules";
+  }
+
+  if (kind === "openai" && !apiKey) {
+    console.warn("VITE_OPENAI_API_KEY is not set, falling back to the rule parser");
+    kind = "rules";
+  }
+  if (kind === "openai-compatible" && !env.VITE_LLM_BASE_URL) {
+    console.warn("VITE_LLM_BASE_URL is not set, falling back to the rule parser");
+    kind = "rules";
+  }
+
+  return {
+    kind,
+    apiKey,
+    baseURL: env.VITE_LLM_BASE_URL,
+    model: env.VITE_LLM_MODEL,
+  };
+}
@@ -0,0 +1,211 @@
+import type { Robot, PickableObject, Vector3 } from "./types";
+
+/**
+ * Obstacle-aware path planning on the ground plane.
+ *
+ * Scene objects and other robots become discs, inflated by the walking robot's
+ * radius. A* runs over an occupancy grid of those discs, and the cell path is
+ * then shortened to the fewest straight segments that stay clear. A clear
+ * straight line skips the grid entirely, so unobstructed walks stay one segment.
+ */
+
+export interface Obstacle {
+  id: string;
+  name: string; // For messages ("blue ball is in the way")
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export const ROBOT_RADIUS = 0.3;
+export const GRID_RESOLUTION = 0.2; // Cell size in meters
+export const GRID_HALF_SIZE = 15; // Matches the 30x30 ground plane
+
+interface ObstacleOptions {
+  robotId: string; // The robot that walks (never its own obstacle)
+  ignoreObjectIds?: string[]; // e.g. the object it is walking to
+}
+
+// Discs for everything on the ground except the walking robot and ignored objects
+export function sceneObstacles(robots: Robot[], objects: PickableObject[], options: ObstacleOptions): Obstacle[] {
+  const ignored = new Set(options.ignoreObjectIds ?? []);
+  const objectObstacles = objects
+    .filter((obj) => !obj.isPicked && !ignored.has(obj.id))
+    .map((obj) => ({ id: obj.id, name: obj.name, x: obj.position.x, z: obj.position.z, radius: obj.size / 2 }));
+  const robotObstacles = robots
+    .filter((robot) => robot.id !== options.robotId)
+    .map((robot) => ({ id: robot.id, name: robot.name, x: robot.position.x, z: robot.position.z, radius: ROBOT_RADIUS }));
+  return [...objectObstacles, ...robotObstacles];
+}
+
+function blocks(obstacle: Obstacle, x: number, z: number, radius = ROBOT_RADIUS): boolean {
+  return Math.hypot(x - obstacle.x, z - obstacle.z) < obstacle.radius + radius;
+}
+
+/**
+ * First obstacle a disc of `radius` would hit moving straight from a to b
+ * (closest distance from the obstacle centre to the segment under the sum of radii).
+ */
+export function firstObstacleOnSegment(a: Vector3, b: Vector3, obstacles: Obstacle[], radius = ROBOT_RADIUS): Obstacle | undefined {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  return obstacles.find((obstacle) => {
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((obstacle.x - a.x) * dx + (obstacle.z - a.z) * dz) / lengthSq));
+    return blocks(obstacle, a.x + dx * t, a.z + dz * t, radius);
+  });
+}
+
+function segmentClear(a: Vector3, b: Vector3, obstacles: Obstacle[]): boolean {
+  return !firstObstacleOnSegment(a, b, obstacles);
+}
+
+// Minimal binary heap keyed by f-score
+class MinHeap {
+  private items: { key: number; value: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: number, key: number) {
+    const items = this.items;
+    items.push({ key, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].key <= items[i].key) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0].value;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].key < items[smallest].key) smallest = left;
+        if (right < items.length && items[right].key < items[smallest].key) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const NEIGHBORS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+// A* over grid cells; returns cell-centre points from start to goal (inclusive) or null
+function gridSearch(start: Vector3, goal: Vector3, obstacles: Obstacle[]): Vector3[] | null {
+  const cells = Math.round((GRID_HALF_SIZE * 2) / GRID_RESOLUTION);
+  const toCell = (v: number) => Math.max(0, Math.min(cells - 1, Math.floor((v + GRID_HALF_SIZE) / GRID_RESOLUTION)));
+  const toWorld = (c: number) => -GRID_HALF_SIZE + (c + 0.5) * GRID_RESOLUTION;
+
+  const blocked = new Uint8Array(cells * cells);
+  for (const obstacle of obstacles) {
+    const reach = obstacle.radius + ROBOT_RADIUS;
+    for (let i = toCell(obstacle.x - reach); i <= toCell(obstacle.x + reach); i++) {
+      for (let j = toCell(obstacle.z - reach); j <= toCell(obstacle.z + reach); j++) {
+        if (blocks(obstacle, toWorld(i), toWorld(j))) blocked[i * cells + j] = 1;
+      }
+    }
+  }
+
+  const startIndex = toCell(start.x) * cells + toCell(start.z);
+  const goalI = toCell(goal.x);
+  const goalJ = toCell(goal.z);
+  const goalIndex = goalI * cells + goalJ;
+  blocked[startIndex] = 0; // The robot is already there
+  if (blocked[goalIndex]) return null;
+
+  const heuristic = (i: number, j: number) => {
+    const di = Math.abs(i - goalI);
+    const dj = Math.abs(j - goalJ);
+    return Math.max(di, dj) + (Math.SQRT2 - 1) * Math.min(di, dj); // Octile distance
+  };
+
+  const gScore = new Float64Array(cells * cells).fill(Infinity);
+  const cameFrom = new Int32Array(cells * cells).fill(-1);
+  const closed = new Uint8Array(cells * cells);
+  const open = new MinHeap();
+  gScore[startIndex] = 0;
+  open.push(startIndex, heuristic(toCell(start.x), toCell(start.z)));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const ci = Math.floor(current / cells);
+    const cj = current % cells;
+    for (const [di, dj, cost] of NEIGHBORS) {
+      const ni = ci + di;
+      const nj = cj + dj;
+      if (ni < 0 || nj < 0 || ni >= cells || nj >= cells) continue;
+      const next = ni * cells + nj;
+      if (blocked[next] || closed[next]) continue;
+      // No cutting corners past a blocked cell
+      if (di !== 0 && dj !== 0 && (blocked[ci * cells + nj] || blocked[ni * cells + cj])) continue;
+
+      const tentative = gScore[current] + cost;
+      if (tentative < gScore[next]) {
+        gScore[next] = tentative;
+        cameFrom[next] = current;
+        open.push(next, tentative + heuristic(ni, nj));
+      }
+    }
+  }
+
+  if (gScore[goalIndex] === Infinity) return null;
+
+  const points: Vector3[] = [];
+  for (let index = goalIndex; index !== -1; index = cameFrom[index]) {
+    points.push({ x: toWorld(Math.floor(index / cells)), y: start.y, z: toWorld(index % cells) });
+  }
+  points.reverse();
+  points[0] = { ...start };
+  points[points.length - 1] = { ...goal, y: start.y };
+  return points;
+}
+
+// Drop intermediate points while the straight line to a later point stays clear
+function shortenPath(points: Vector3[], obstacles: Obstacle[]): Vector3[] {
+  const waypoints: Vector3[] = [];
+  let anchor = 0;
+  while (anchor < points.length - 1) {
+    let next = points.length - 1;
+    while (next > anchor + 1 && !segmentClear(points[anchor], points[next], obstacles)) {
+      next--;
+    }
+    waypoints.push(points[next]);
+    anchor = next;
+  }
+  return waypoints;
+}
+
+/**
+ * Collision-free waypoints from `start` to `goal` (start excluded, goal last),
+ * or null when the goal cannot be reached. Obstacles the robot already stands
+ * inside are ignored so it can always walk out of them.
+ */
+export function findPath(start: Vector3, goal: Vector3, obstacles: Obstacle[]): Vector3[] | null {
+  const relevant = obstacles.filter((obstacle) => !blocks(obstacle, start.x, start.z));
+  if (relevant.some((obstacle) => blocks(obstacle, goal.x, goal.z))) return null;
+  if (segmentClear(start, goal, relevant)) return [{ ...goal, y: start.y }];
+
+  const points = gridSearch(start, goal, relevant);
+  return points ? shortenPath(points, relevant) : null;
+}
@@ -167,18 +167,135 @@ export function isGrounded(
   return leftGrounded || rightGrounded;
 }
 
+// Rigid bodies of one limb: the upper segment hangs from the parent, the lower from the upper
+export interface LimbBodies {
+  upper: RapierRigidBody | null;
+  lower: RapierRigidBody | null;
+}
+
+export interface HumanoidBodies {
+  torso: RapierRigidBody | null; // Leans with pose.torso; the arms hang from it
+  pelvis: RapierRigidBody | null; // Turns with the robot but does not lean; the legs hang from it
+  leftArm: LimbBodies;
+  rightArm: LimbBodies;
+  leftLeg: LimbBodies;
+  rightLeg: LimbBodies;
+}
+
+const toRotation = (r: { x: number; y: number; z: number; w: number }) => new THREE.Quaternion(r.x, r.y, r.z, r.w);
+
+const toQuaternion = (body: RapierRigidBody) => toRotation(body.rotation());
+
+const toVector = (v: { x: number; y: number; z: number }) => new THREE.Vector3(v.x, v.y, v.z);
+
 /**
- * Apply pose tracking using PD control
- * This is the core of physics-based motion imitation
+ * Angles of `child` relative to `parent` (radians), in the order the joints turn
+ * (skeleton.ts): pitch about x, then roll about z, then twist along the limb.
+ */
+export function jointAngles(parent: RapierRigidBody, child: RapierRigidBody): { pitch: number; roll: number; twist: number } {
+  const relative = toQuaternion(parent).invert().multiply(toQuaternion(child));
+  const euler = new THREE.Euler().setFromQuaternion(relative, "XZY");
+  return { pitch: euler.x, roll: euler.z, twist: euler.y };
+}
+
+// Moment of inertia of `body` about `axis` (world, unit length) through `pivot` (world)
+function inertiaAbout(body: RapierRigidBody, axis: THREE.Vector3, pivot: THREE.Vector3): number {
+  const frame = toQuaternion(body).multiply(toRotation(body.principalInertiaLocalFrame()));
+  const local = axis.clone().applyQuaternion(frame.invert());
+  const principal = body.principalInertia();
+  const aroundCom = principal.x * local.x ** 2 + principal.y * local.y ** 2 + principal.z * local.z ** 2;
+  const lever = toVector(body.worldCom()).sub(pivot).cross(axis);
+  return aroundCom + body.mass() * lever.lengthSq();
+}
+
+/**
+ * Gains the physics step can integrate without blowing up: an explicit PD
+ * torque overshoots once kd·dt or kp·dt² gets near the inertia it turns
+ * (e.g. twisting a thin limb along its length).
+ */
+function stableGains(gains: PDGains, inertia: number, dt: number): PDGains {
+  return {
+    kp: Math.min(gains.kp, (0.5 * inertia) / (dt * dt)),
+    kd: Math.min(gains.kd, (0.5 * inertia) / dt),
+  };
+}
+
+/**
+ * PD torque on one joint towards target angles (radians). `roll` and `twist`
+ * are left free when undefined (hinges). The child's origin is the joint; the
+ * reaction goes to the parent.
  */
-export function applyPoseTracking(
-  targetPose: FullPose,
-  // Body references would be passed here
-  // For now, this is a placeholder for future joint motor implementation
+export function applyJointTracking(
+  parent: RapierRigidBody,
+  child: RapierRigidBody,
+  target: { pitch: number; roll?: number; twist?: number },
+  gains: PDGains,
+  dt: number
 ): void {
-  // TODO: Implement joint motors in PhysicsHumanoid
-  // Each joint should track its target angle using PD control
-  // τ = Kp * (target - current) - Kd * velocity
+  const angles = jointAngles(parent, child);
+  const parentRotation = toQuaternion(parent);
+  const childRotation = toQuaternion(child);
+  const pivot = toVector(child.translation());
+
+  // Relative angular velocity, read about the axis each angle turns around
+  const omega = toVector(child.angvel()).sub(toVector(parent.angvel()));
+  const axes = [
+    { axis: new THREE.Vector3(1, 0, 0).applyQuaternion(parentRotation), target: target.pitch, current: angles.pitch },
+    { axis: new THREE.Vector3(0, 0, 1).applyQuaternion(childRotation), target: target.roll, current: angles.roll }, // Rz after Rx leaves z as the child's z
+    { axis: new THREE.Vector3(0, 1, 0).applyQuaternion(childRotation), target: target.twist, current: angles.twist },
+  ];
+
+  const torque = new THREE.Vector3();
+  for (const { axis, target: goal, current } of axes) {
+    if (goal === undefined) continue;
+    const axisGains = stableGains(gains, inertiaAbout(child, axis, pivot), dt);
+    torque.addScaledVector(axis, computePDTorque(goal, current, omega.dot(axis), axisGains));
+  }
+
+  const impulse = torque.multiplyScalar(dt);
+  child.applyTorqueImpulse(impulse, true);
+  if (parent.isDynamic()) parent.applyTorqueImpulse(impulse.negate(), true);
+}
+
+/**
+ * Apply pose tracking using PD control
+ * This is the core of physics-based motion imitation: every limb joint is
+ * pushed towards `targetPose` with JOINT_PD_GAINS once per physics step (dt in seconds).
+ * Shoulders and hips are ball joints (pitch, roll, no twist); elbows and knees are hinges.
+ */
+export function applyPoseTracking(targetPose: FullPose, bodies: HumanoidBodies, dt: number): void {
+  const rad = THREE.MathUtils.degToRad;
+  (["left", "right"] as const).forEach((side) => {
+    // Roll moves a limb outwards, which is a turn about -z on the left
+    const outward = side === "left" ? -1 : 1;
+
+    const arm = bodies[`${side}Arm`];
+    const armPose = targetPose[`${side}Arm`];
+    if (bodies.torso && arm.upper) {
+      applyJointTracking(bodies.torso, arm.upper, {
+        pitch: rad(armPose.shoulder.pitch),
+        roll: rad(outward * (armPose.shoulder.roll ?? 0)),
+        twist: 0,
+      }, JOINT_PD_GAINS.shoulder, dt);
+    }
+    if (arm.upper && arm.lower) {
+      applyJointTracking(arm.upper, arm.lower, { pitch: rad(armPose.elbow.flex) }, JOINT_PD_GAINS.elbow, dt);
+    }
+
+    const leg = bodies[`${side}Leg`];
+    const legPose = targetPose[`${side}Leg`];
+    if (bodies.pelvis && leg.upper) {
+      applyJointTracking(bodies.pelvis, leg.upper, {
+        pitch: rad(legPose.hip.pitch),
+        roll: rad(outward * (legPose.hip.roll ?? 0)),
+        twist: 0,
+      }, JOINT_PD_GAINS.hip, dt);
+    }
+    if (leg.upper && leg.lower) {
+      // The knee bends the other way: flex > 0 is a turn about -x
+      applyJointTracking(leg.upper, leg.lower, { pitch: -rad(legPose.knee.flex) }, JOINT_PD_GAINS.knee, dt);
+    }
+  });
 }
 
 /**
@@ -0,0 +1,123 @@
+import type { PickableObject, Vector3 } from "./types";
+
+/**
+ * Where a placed object lands.
+ *
+ * Objects are treated as discs of radius size/2 on the ground. "Next to X"
+ * puts the held object beside X, on the side facing the robot when that spot
+ * is free, otherwise the nearest free spot found by turning around X.
+ *
+ * `position.y` is the object's centre. An object rests either on the ground
+ * or on top of the object named by `restingOn`; boxes and cylinders have a
+ * flat top that can carry one object, spheres cannot carry anything.
+ */
+
+export const PLACEMENT_GAP = 0.05; // Space left between two objects placed side by side
+export const GROUND_Y = -2; // Ground plane height
+const SUPPORT_TOLERANCE = 0.05; // How far a bottom may sit from a top and still rest on it
+
+// Every shape is `size` tall (box edge, cylinder height, sphere diameter)
+export function objectHeight(obj: PickableObject): number {
+  return obj.size;
+}
+
+export function topOf(obj: PickableObject): number {
+  return obj.position.y + objectHeight(obj) / 2;
+}
+
+// Centre height of `obj` resting on `support` (or on the ground)
+export function restingY(obj: PickableObject, support?: PickableObject): number {
+  return (support ? topOf(support) : GROUND_Y) + objectHeight(obj) / 2;
+}
+
+export function canSupport(obj: PickableObject): boolean {
+  return obj.type !== "sphere";
+}
+
+// Supports under `obj`, nearest first
+export function objectsBelow(obj: PickableObject, objects: PickableObject[]): PickableObject[] {
+  const below: PickableObject[] = [];
+  let support = objects.find((other) => other.id === obj.restingOn);
+  while (support && !below.includes(support)) {
+    below.push(support);
+    const next: PickableObject = support;
+    support = objects.find((other) => other.id === next.restingOn);
+  }
+  return below;
+}
+
+// Everything stacked on `obj`, directly or on top of something that is
+export function objectsAbove(obj: PickableObject, objects: PickableObject[]): PickableObject[] {
+  const above: PickableObject[] = [];
+  let layer = objectsOnTop(obj, objects);
+  while (layer.length > 0) {
+    above.push(...layer);
+    layer = layer.flatMap((top) => objectsOnTop(top, objects)).filter((top) => top !== obj && !above.includes(top));
+  }
+  return above;
+}
+
+// Objects resting directly on `obj`
+export function objectsOnTop(obj: PickableObject, objects: PickableObject[]): PickableObject[] {
+  return objects.filter((other) => !other.isPicked && other.restingOn === obj.id);
+}
+
+export function footprintRadius(obj: PickableObject): number {
+  return obj.size / 2;
+}
+
+// What `obj` rests on with its centre at `position`: an object whose top is right under it and
+// whose footprint holds its centre, or undefined on the ground (e.g. where a physics body settled)
+export function supportUnder(obj: PickableObject, position: Vector3, objects: PickableObject[]): PickableObject | undefined {
+  const bottom = position.y - objectHeight(obj) / 2;
+  return objects.find((other) =>
+    other.id !== obj.id &&
+    !other.isPicked &&
+    canSupport(other) &&
+    Math.abs(topOf(other) - bottom) < SUPPORT_TOLERANCE &&
+    Math.hypot(other.position.x - position.x, other.position.z - position.z) < footprintRadius(other)
+  );
+}
+
+// First ground-level object (other than `ignoreIds`) a disc at `position` would overlap
+export function findOverlap(
+  position: Vector3,
+  radius: number,
+  objects: PickableObject[],
+  ignoreIds: string[] = []
+): PickableObject | undefined {
+  return objects.find((obj) =>
+    !obj.isPicked &&
+    !obj.restingOn &&
+    !ignoreIds.includes(obj.id) &&
+    Math.hypot(obj.position.x - position.x, obj.position.z - position.z) < footprintRadius(obj) + radius
+  );
+}
+
+/**
+ * Spot for `held` beside `reference`, preferring the side towards `from`
+ * (usually the robot). Returns null when every side is taken.
+ */
+export function placeNextTo(
+  reference: PickableObject,
+  held: PickableObject,
+  objects: PickableObject[],
+  from: Vector3
+): Vector3 | null {
+  const offset = footprintRadius(reference) + footprintRadius(held) + PLACEMENT_GAP;
+  const baseAngle = Math.atan2(from.z - reference.position.z, from.x - reference.position.x);
+
+  // Try the preferred side first, then alternate left/right in 45° steps
+  for (const turn of [0, 1, -1, 2, -2, 3, -3, 4]) {
+    const angle = baseAngle + (turn * Math.PI) / 4;
+    const spot = {
+      x: reference.position.x + Math.cos(angle) * offset,
+      y: reference.position.y,
+      z: reference.position.z + Math.sin(angle) * offset,
+    };
+    if (!findOverlap(spot, footprintRadius(held), objects, [held.id, reference.id])) {
+      return spot;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,337 @@
+import type { ArmJointAngles, FullPose, HandJointAngles, LegJointAngles, Side, Vector3 } from "./types";
+import { clamp, JOINT_LIMITS } from "./clamp";
+import { OPEN_HAND } from "./grasp";
+import { forwardKinematics, type JointTransform } from "./forwardKinematics";
+import { SKELETON } from "./skeleton";
+
+/**
+ * Joint limits and self-collision for whole poses.
+ *
+ * `checkPose()` clamps every axis of a pose to JOINT_LIMITS (rolls, wrists,
+ * neck and fingers included), lists what it had to clamp, and then looks for
+ * limbs going through the body: an arm inside the torso, the two arms through
+ * each other, or the two legs. Arms against legs are not checked, since a
+ * crouch brings the hands down by the knees.
+ */
+
+export interface JointClamp {
+  joint: string; // Pose path, e.g. "rightArm.shoulder.roll"
+  requested: number;
+  applied: number; // Within JOINT_LIMITS; requested - applied is how far it was off
+}
+
+export type BodyPart =
+  | "torso"
+  | "leftUpperArm" | "leftForearm" | "rightUpperArm" | "rightForearm"
+  | "leftThigh" | "leftShin" | "rightThigh" | "rightShin";
+
+export interface SelfCollision {
+  parts: [BodyPart, BodyPart];
+  depth: number; // Meters the two overlap
+}
+
+export interface PoseCheck {
+  pose: FullPose; // Clamped to JOINT_LIMITS
+  clamped: JointClamp[];
+  collisions: SelfCollision[]; // Empty when the clamped pose is possible
+}
+
+interface Limits {
+  min: number;
+  max: number;
+}
+
+// One axis of a pose, for editing it on its own
+export interface PoseJoint {
+  path: string; // "rightArm.shoulder.roll"
+  limits: Limits;
+}
+
+interface Capsule {
+  part: BodyPart;
+  from: Vector3;
+  to: Vector3;
+  radius: number;
+}
+
+const LIMB_RADIUS = { upperArm: 0.07, forearm: 0.06, thigh: 0.09, shin: 0.08 }; // As drawn in Humanoid.tsx
+const SHOULDER_CLEARANCE = 0.12; // Upper arm length next to the shoulder that is allowed to touch the torso
+const COLLISION_SLACK = 0.04; // Overlap (m) tolerated, e.g. an arm swinging past the side
+const SAMPLES = 12; // Points along a limb tested against the torso
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function along(a: Vector3, b: Vector3, t: number): Vector3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+// ============================================
+// JOINT LIMITS
+// ============================================
+
+/** Every axis of `pose` within JOINT_LIMITS, with the clamps it took. */
+export function clampPose(pose: FullPose): { pose: FullPose; clamped: JointClamp[] } {
+  const clamped: JointClamp[] = [];
+  const limit = (joint: string, value: number, limits: Limits): number => {
+    const applied = clamp(value, limits.min, limits.max);
+    if (applied !== value) clamped.push({ joint, requested: value, applied });
+    return applied;
+  };
+
+  const arm = (side: Side): ArmJointAngles => {
+    const key = `${side}Arm` as const;
+    const { shoulder, elbow, wrist } = pose[key];
+    const result: ArmJointAngles = {
+      shoulder: {
+        pitch: limit(`${key}.shoulder.pitch`, shoulder.pitch, JOINT_LIMITS.shoulder.pitch),
+        roll: limit(`${key}.shoulder.roll`, shoulder.roll ?? 0, JOINT_LIMITS.shoulder.roll),
+      },
+      elbow: { flex: limit(`${key}.elbow.flex`, elbow.flex, JOINT_LIMITS.elbow.flex) },
+    };
+    if (wrist) {
+      result.wrist = {
+        flex: limit(`${key}.wrist.flex`, wrist.flex, JOINT_LIMITS.wrist.flex),
+        twist: limit(`${key}.wrist.twist`, wrist.twist, JOINT_LIMITS.wrist.twist),
+      };
+    }
+    return result;
+  };
+
+  const leg = (side: Side): LegJointAngles => {
+    const key = `${side}Leg` as const;
+    const { hip, knee } = pose[key];
+    return {
+      hip: {
+        pitch: limit(`${key}.hip.pitch`, hip.pitch, JOINT_LIMITS.hip.pitch),
+        roll: limit(`${key}.hip.roll`, hip.roll ?? 0, JOINT_LIMITS.hip.roll),
+      },
+      knee: { flex: limit(`${key}.knee.flex`, knee.flex, JOINT_LIMITS.knee.flex) },
+    };
+  };
+
+  const hand = (side: Side): HandJointAngles | undefined => {
+    const key = `${side}Hand` as const;
+    const angles = pose[key];
+    if (!angles) return undefined;
+    return {
+      thumb: {
+        flex: limit(`${key}.thumb.flex`, angles.thumb.flex, JOINT_LIMITS.thumb.flex),
+        opposition: limit(`${key}.thumb.opposition`, angles.thumb.opposition, JOINT_LIMITS.thumb.opposition),
+      },
+      fingers: {
+        flex: limit(`${key}.fingers.flex`, angles.fingers.flex, JOINT_LIMITS.fingers.flex),
+        spread: limit(`${key}.fingers.spread`, angles.fingers.spread, JOINT_LIMITS.fingers.spread),
+      },
+    };
+  };
+
+  const result: FullPose = {
+    leftArm: arm("left"),
+    rightArm: arm("right"),
+    leftLeg: leg("left"),
+    rightLeg: leg("right"),
+  };
+  if (pose.torso) {
+    result.torso = {
+      pitch: limit("torso.pitch", pose.torso.pitch, JOINT_LIMITS.torso.pitch),
+      roll: limit("torso.roll", pose.torso.roll, JOINT_LIMITS.torso.roll),
+    };
+    if (pose.torso.yaw !== undefined) result.torso.yaw = limit("torso.yaw", pose.torso.yaw, JOINT_LIMITS.torso.yaw);
+  }
+  if (pose.neck) {
+    result.neck = {
+      yaw: limit("neck.yaw", pose.neck.yaw, JOINT_LIMITS.neck.yaw),
+      pitch: limit("neck.pitch", pose.neck.pitch, JOINT_LIMITS.neck.pitch),
+    };
+  }
+  const leftHand = hand("left");
+  const rightHand = hand("right");
+  if (leftHand) result.leftHand = leftHand;
+  if (rightHand) result.rightHand = rightHand;
+
+  return { pose: result, clamped };
+}
+
+function axesOf(part: string, limits: Record<string, Limits>): PoseJoint[] {
+  return Object.entries(limits).map(([axis, range]) => ({ path: `${part}.${axis}`, limits: range }));
+}
+
+/** Every axis a pose can set, with its JOINT_LIMITS range. */
+export const POSE_JOINTS: PoseJoint[] = [
+  ...axesOf("torso", JOINT_LIMITS.torso),
+  ...axesOf("neck", JOINT_LIMITS.neck),
+  ...(["left", "right"] as const).flatMap((side) => [
+    ...axesOf(`${side}Arm.shoulder`, JOINT_LIMITS.shoulder),
+    ...axesOf(`${side}Arm.elbow`, JOINT_LIMITS.elbow),
+    ...axesOf(`${side}Arm.wrist`, JOINT_LIMITS.wrist),
+    ...axesOf(`${side}Leg.hip`, JOINT_LIMITS.hip),
+    ...axesOf(`${side}Leg.knee`, JOINT_LIMITS.knee),
+    ...axesOf(`${side}Hand.thumb`, JOINT_LIMITS.thumb),
+    ...axesOf(`${side}Hand.fingers`, JOINT_LIMITS.fingers),
+  ]),
+];
+
+/** The angle at `path` (a POSE_JOINTS path); unset parts read as 0. */
+export function jointAngle(pose: FullPose, path: string): number {
+  const value = path.split(".").reduce<unknown>(
+    (node, key) => (node && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined),
+    pose
+  );
+  return typeof value === "number" ? value : 0;
+}
+
+/**
+ * A copy of `pose` with the angle at `path` (a POSE_JOINTS path) set, not
+ * clamped; an unset part is filled in around it with every other angle 0.
+ * A path that is not a joint axis leaves the pose as it is.
+ */
+export function setJointAngle(pose: FullPose, path: string, value: number): FullPose {
+  const [part, joint, axis] = path.split(".");
+  const set = <T extends object>(angles: T, key: string | undefined, limits: Record<string, Limits>): T =>
+    key !== undefined && Object.prototype.hasOwnProperty.call(limits, key) ? { ...angles, [key]: value } : angles;
+
+  const arm = (angles: ArmJointAngles): ArmJointAngles => {
+    switch (joint) {
+      case "shoulder": return { ...angles, shoulder: set(angles.shoulder, axis, JOINT_LIMITS.shoulder) };
+      case "elbow": return { ...angles, elbow: set(angles.elbow, axis, JOINT_LIMITS.elbow) };
+      case "wrist": return { ...angles, wrist: set(angles.wrist ?? { flex: 0, twist: 0 }, axis, JOINT_LIMITS.wrist) };
+      default: return angles;
+    }
+  };
+  const leg = (angles: LegJointAngles): LegJointAngles => {
+    switch (joint) {
+      case "hip": return { ...angles, hip: set(angles.hip, axis, JOINT_LIMITS.hip) };
+      case "knee": return { ...angles, knee: set(angles.knee, axis, JOINT_LIMITS.knee) };
+      default: return angles;
+    }
+  };
+  const hand = (angles: HandJointAngles = OPEN_HAND): HandJointAngles => {
+    switch (joint) {
+      case "thumb": return { ...angles, thumb: set(angles.thumb, axis, JOINT_LIMITS.thumb) };
+      case "fingers": return { ...angles, fingers: set(angles.fingers, axis, JOINT_LIMITS.fingers) };
+      default: return angles;
+    }
+  };
+
+  switch (part) {
+    case "torso": return { ...pose, torso: set(pose.torso ?? { pitch: 0, roll: 0 }, joint, JOINT_LIMITS.torso) };
+    case "neck": return { ...pose, neck: set(pose.neck ?? { yaw: 0, pitch: 0 }, joint, JOINT_LIMITS.neck) };
+    case "leftArm": return { ...pose, leftArm: arm(pose.leftArm) };
+    case "rightArm": return { ...pose, rightArm: arm(pose.rightArm) };
+    case "leftLeg": return { ...pose, leftLeg: leg(pose.leftLeg) };
+    case "rightLeg": return { ...pose, rightLeg: leg(pose.rightLeg) };
+    case "leftHand": return { ...pose, leftHand: hand(pose.leftHand) };
+    case "rightHand": return { ...pose, rightHand: hand(pose.rightHand) };
+    default: return pose;
+  }
+}
+
+// ============================================
+// SELF-COLLISION
+// ============================================
+
+// Shortest distance between segments ab and cd
+function segmentDistance(a: Vector3, b: Vector3, c: Vector3, d: Vector3): number {
+  const u = sub(b, a);
+  const v = sub(d, c);
+  const w = sub(a, c);
+  const uu = dot(u, u);
+  const uv = dot(u, v);
+  const vv = dot(v, v);
+  const uw = dot(u, w);
+  const vw = dot(v, w);
+  const denominator = uu * vv - uv * uv;
+
+  // Closest point on ab to the line cd (any point when parallel), then back onto cd
+  let s = denominator > 1e-9 ? clamp((uv * vw - vv * uw) / denominator, 0, 1) : 0;
+  let t = vv > 1e-9 ? clamp((uv * s + vw) / vv, 0, 1) : 0;
+  s = uu > 1e-9 ? clamp((uv * t - uw) / uu, 0, 1) : 0;
+  t = vv > 1e-9 ? clamp((uv * s + vw) / vv, 0, 1) : 0;
+
+  const p = along(a, b, s);
+  const q = along(c, d, t);
+  return Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+}
+
+// Distance from `point` to the torso box, negative inside (how deep)
+function torsoDistance(torso: JointTransform, point: Vector3): number {
+  const offset = sub(point, torso.position);
+  const local = { x: dot(offset, torso.axes.x), y: dot(offset, torso.axes.y), z: dot(offset, torso.axes.z) };
+  const gap = {
+    x: Math.abs(local.x) - SKELETON.torso.x,
+    y: Math.abs(local.y) - SKELETON.torso.y,
+    z: Math.abs(local.z) - SKELETON.torso.z,
+  };
+  const outside = Math.hypot(Math.max(0, gap.x), Math.max(0, gap.y), Math.max(0, gap.z));
+  return outside > 0 ? outside : Math.max(gap.x, gap.y, gap.z);
+}
+
+// How far a limb sinks into the torso, skipping the part next to its joint with the torso
+function torsoDepth(torso: JointTransform, limb: Capsule, skip: number): number {
+  const length = Math.hypot(limb.to.x - limb.from.x, limb.to.y - limb.from.y, limb.to.z - limb.from.z);
+  const start = length > 0 ? Math.min(skip / length, 1) : 1;
+  let depth = 0;
+  for (let i = 0; i <= SAMPLES; i++) {
+    const point = along(limb.from, limb.to, start + ((1 - start) * i) / SAMPLES);
+    depth = Math.max(depth, limb.radius - torsoDistance(torso, point));
+  }
+  return depth;
+}
+
+/** Limbs of `pose` that go through the torso or each other. */
+export function findSelfCollisions(pose: FullPose): SelfCollision[] {
+  const joints = forwardKinematics({ pose, position: { x: 0, y: 0, z: 0 }, rotation: 0 });
+  const limb = (part: BodyPart, from: JointTransform, to: JointTransform, radius: number): Capsule => ({
+    part, from: from.position, to: to.position, radius,
+  });
+
+  const arms = (side: Side) => [
+    limb(`${side}UpperArm`, joints[`${side}Shoulder`], joints[`${side}Elbow`], LIMB_RADIUS.upperArm),
+    limb(`${side}Forearm`, joints[`${side}Elbow`], joints[`${side}Hand`], LIMB_RADIUS.forearm),
+  ];
+  const legs = (side: Side) => [
+    limb(`${side}Thigh`, joints[`${side}Hip`], joints[`${side}Knee`], LIMB_RADIUS.thigh),
+    limb(`${side}Shin`, joints[`${side}Knee`], joints[`${side}Foot`], LIMB_RADIUS.shin),
+  ];
+
+  const collisions: SelfCollision[] = [];
+  const report = (a: BodyPart, b: BodyPart, depth: number) => {
+    if (depth > COLLISION_SLACK) collisions.push({ parts: [a, b], depth });
+  };
+
+  // Arms against the chest; the upper arm starts at the shoulder, right by the torso's side
+  [...arms("left"), ...arms("right")].forEach((arm) => {
+    const skip = arm.part.endsWith("UpperArm") ? SHOULDER_CLEARANCE : 0;
+    report(arm.part, "torso", torsoDepth(joints.torso, arm, skip));
+  });
+
+  // Left limbs against right limbs
+  const pairs: [Capsule[], Capsule[]][] = [[arms("left"), arms("right")], [legs("left"), legs("right")]];
+  pairs.forEach(([left, right]) => {
+    left.forEach((a) => {
+      right.forEach((b) => {
+        report(a.part, b.part, a.radius + b.radius - segmentDistance(a.from, a.to, b.from, b.to));
+      });
+    });
+  });
+
+  return collisions;
+}
+
+/** Clamp `pose` to the joint limits, then check the result for self-collision. */
+export function checkPose(pose: FullPose): PoseCheck {
+  const { pose: clampedPose, clamped } = clampPose(pose);
+  return { pose: clampedPose, clamped, collisions: findSelfCollisions(clampedPose) };
+}
+
+// "rightForearm" → "right forearm"
+export function describeCollision(collision: SelfCollision): string {
+  const name = (part: BodyPart) => part.replace(/([A-Z])/g, " $1").toLowerCase();
+  return `${name(collision.parts[0])} would go through the ${name(collision.parts[1])}`;
+}
@@ -0,0 +1,126 @@
+import type { PickableObject, Vector3 } from "./types";
+import { canSupport, footprintRadius, GROUND_Y, objectHeight, objectsOnTop, PLACEMENT_GAP, restingY, topOf } from "./placement";
+
+/**
+ * Ballistic flight of a thrown object.
+ *
+ * The object leaves the hand at a fixed launch angle; the speed is solved so
+ * its centre comes down on the aim point. The flight is sampled in fixed
+ * steps and ends at the first contact, using the object's size as its radius:
+ * the ground, the top of an object (it stays there when that object can carry
+ * it), or the side of an object (it drops to the ground beside it).
+ */
+
+export const GRAVITY = 9.81; // m/s²
+export const LAUNCH_ANGLE = 35; // Degrees above horizontal
+export const MAX_THROW_SPEED = 7; // m/s, about 5.5 m on flat ground
+export const FLIGHT_STEP = 1 / 60; // Sampling step in seconds
+export const DEFAULT_THROW_DISTANCE = 2; // "Throw it" without a target: this far ahead
+const MAX_FLIGHT_STEPS = 600;
+
+const RELEASE_FORWARD = 0.3; // Hand in front of the body at release
+const RELEASE_HEIGHT = 0.6; // Hand above the robot's origin at release
+
+export interface Flight {
+  path: Vector3[]; // Centre of the object every FLIGHT_STEP, launch first, landing last
+  duration: number; // ms
+  landing: Vector3;
+  restingOn: string | null; // Object it landed on top of
+}
+
+// Where the hand lets go, for a robot standing at `position` facing `rotation` (degrees)
+export function releasePoint(position: Vector3, rotation: number): Vector3 {
+  const rad = (rotation * Math.PI) / 180;
+  return {
+    x: position.x + Math.sin(rad) * RELEASE_FORWARD,
+    y: position.y + RELEASE_HEIGHT,
+    z: position.z - Math.cos(rad) * RELEASE_FORWARD,
+  };
+}
+
+/**
+ * Launch velocity that brings the centre from `from` down to `to`,
+ * or null when it would take more than MAX_THROW_SPEED.
+ */
+export function launchVelocity(from: Vector3, to: Vector3): Vector3 | null {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const range = Math.hypot(dx, dz);
+  const angle = (LAUNCH_ANGLE * Math.PI) / 180;
+  const drop = from.y - to.y;
+
+  // y(d) = drop below launch  →  v² = g·d² / (2·cos²θ·(d·tanθ + drop))
+  const denominator = 2 * Math.cos(angle) ** 2 * (range * Math.tan(angle) + drop);
+  if (range < 1e-6 || denominator <= 0) return null;
+  const speed = Math.sqrt((GRAVITY * range * range) / denominator);
+  if (speed > MAX_THROW_SPEED) return null;
+
+  const horizontal = speed * Math.cos(angle);
+  return { x: (dx / range) * horizontal, y: speed * Math.sin(angle), z: (dz / range) * horizontal };
+}
+
+// Fraction of a step at which a value going from `before` to `after` reaches `limit`
+function crossing(before: number, after: number, limit: number): number {
+  return before === after ? 1 : Math.max(0, Math.min(1, (before - limit) / (before - after)));
+}
+
+function between(a: Vector3, b: Vector3, t: number): Vector3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+/**
+ * Fly `object` from `from` with `velocity` until it touches something.
+ * `objects` is the rest of the scene (the thrown object itself is skipped).
+ */
+export function simulateFlight(object: PickableObject, from: Vector3, velocity: Vector3, objects: PickableObject[]): Flight {
+  const radius = objectHeight(object) / 2;
+  const others = objects.filter((obj) => obj.id !== object.id && !obj.isPicked);
+  const path: Vector3[] = [{ ...from }];
+  let position = { ...from };
+
+  const finish = (landing: Vector3, restingOn: string | null): Flight => {
+    path.push(landing);
+    return { path, duration: (path.length - 1) * FLIGHT_STEP * 1000, landing, restingOn };
+  };
+
+  for (let i = 1; i <= MAX_FLIGHT_STEPS; i++) {
+    // Sampled from the closed-form parabola, so the landing matches launchVelocity()'s aim exactly
+    const t = i * FLIGHT_STEP;
+    const next = {
+      x: from.x + velocity.x * t,
+      y: from.y + velocity.y * t - (GRAVITY * t * t) / 2,
+      z: from.z + velocity.z * t,
+    };
+
+    // Highest object first: a stacked object is hit before the one under it
+    const hit = others
+      .filter((obj) => Math.hypot(next.x - obj.position.x, next.z - obj.position.z) < radius + footprintRadius(obj))
+      .filter((obj) => next.y - radius < topOf(obj))
+      .sort((a, b) => topOf(b) - topOf(a))[0];
+
+    if (hit) {
+      const cameFromAbove = position.y - radius >= topOf(hit);
+      const overTop = Math.hypot(next.x - hit.position.x, next.z - hit.position.z) < footprintRadius(hit);
+      if (cameFromAbove && overTop && canSupport(hit) && objectsOnTop(hit, others).length === 0) {
+        return finish({ x: hit.position.x, y: restingY(object, hit), z: hit.position.z }, hit.id);
+      }
+
+      // Glanced off: falls to the ground just outside the object it hit
+      const dx = next.x - hit.position.x;
+      const dz = next.z - hit.position.z;
+      const length = Math.hypot(dx, dz) || 1;
+      const offset = footprintRadius(hit) + radius + PLACEMENT_GAP;
+      return finish({ x: hit.position.x + (dx / length) * offset, y: restingY(object), z: hit.position.z + (dz / length) * offset }, null);
+    }
+
+    if (next.y - radius <= GROUND_Y) {
+      const contact = between(position, next, crossing(position.y - radius, next.y - radius, GROUND_Y));
+      return finish({ x: contact.x, y: restingY(object), z: contact.z }, null);
+    }
+
+    path.push(next);
+    position = next;
+  }
+
+  return finish({ x: position.x, y: restingY(object), z: position.z }, null);
+}
@@ -0,0 +1,196 @@
+/**
+ * ============================================
+ * PROMPT BUILDER (프롬프트 생성)
+ * ============================================
+ *
+ * LLM 파서용 시스템 프롬프트를 현재 씬 상태로부터 생성
+ *
+ * 포함 내용:
+ * - 오브젝트: 이름, 한국어 별칭, 형태, 무게, 위치(x, z), 가장 가까운 오브젝트, 집혀있는지, 쌓여 있는 관계
+ * - 로봇: 이름, 위치, 바라보는 방향, 들고 있는 물건 (어느 손인지), 들 수 있는 최대 무게
+ * - 재생할 수 있는 모션 클립 이름 (motionClips.ts)
+ *
+ * → "상자 옆에 있는 거 주워", "제자리에 갖다놔" 같은 명령을 모델이 해석 가능
+ *
+ * 확장 방법:
+ * - 새 색상/형태의 한국어 별칭: COLOR_ALIASES / SHAPE_ALIASES에 추가
+ */
+
+import type { Robot, PickableObject, Vector3 } from "./types";
+import { gripOf, heldObjectIds } from "./hands";
+import { listClips } from "./motionClips";
+
+export interface SceneContext {
+  robots: Robot[];
+  objects: PickableObject[];
+}
+
+// 영어 색상 → 한국어 별칭
+const COLOR_ALIASES: Record<string, string[]> = {
+  red: ["빨간", "빨간색", "빨강"],
+  blue: ["파란", "파란색", "파랑"],
+  green: ["초록", "초록색", "녹색"],
+  yellow: ["노란", "노란색", "노랑"],
+  purple: ["보라", "보라색"],
+};
+
+// 오브젝트 형태 → 한국어 별칭
+const SHAPE_ALIASES: Record<PickableObject["type"], string[]> = {
+  box: ["상자", "박스"],
+  sphere: ["공"],
+  cylinder: ["실린더", "원기둥"],
+};
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function groundDistance(a: Vector3, b: Vector3): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function aliasesFor(obj: PickableObject): string[] {
+  const words = obj.name.toLowerCase().split(/\s+/);
+  const colors = words.flatMap((w) => COLOR_ALIASES[w] ?? []);
+  return [...colors, ...SHAPE_ALIASES[obj.type]];
+}
+
+function describeObject(obj: PickableObject, context: SceneContext): string {
+  const holder = context.robots.find((r) => gripOf(r, obj.id));
+  const where = `x=${round(obj.position.x)}, z=${round(obj.position.z)}`;
+
+  // Nearest other object on the ground, for "the one next to the box"
+  const nearest = context.objects
+    .filter((other) => other.id !== obj.id && !other.isPicked)
+    .map((other) => ({ other, dist: groundDistance(obj.position, other.position) }))
+    .sort((a, b) => a.dist - b.dist)[0];
+
+  const support = context.objects.find((other) => other.id === obj.restingOn);
+  const onTop = context.objects.filter((other) => !other.isPicked && other.restingOn === obj.id);
+
+  let state: string;
+  if (holder) {
+    const grip = gripOf(holder, obj.id);
+    state = `held by ${holder.name} in ${grip === "both" ? "both hands" : `the ${grip} hand`} (picked up from ${where})`;
+  } else if (support) {
+    state = `stacked on top of "${support.name}" at ${where}`;
+  } else {
+    state = `on the ground at ${where}${nearest ? `, nearest: "${nearest.other.name}" (${round(nearest.dist)}m)` : ""}`;
+  }
+  if (onTop.length > 0) {
+    state += `, carrying "${onTop[0].name}" on top`;
+  }
+
+  return `- "${obj.name}" [id: ${obj.id}] ${obj.type}, ${obj.mass}kg, ${aliasesFor(obj).join(", ")} — ${state}`;
+}
+
+function describeRobot(robot: Robot, context: SceneContext): string {
+  const held = heldObjectIds(robot)
+    .map((id) => context.objects.find((obj) => obj.id === id))
+    .filter((obj): obj is PickableObject => obj !== undefined)
+    .map((obj) => `"${obj.name}"`);
+  return `- ${robot.name} [id: ${robot.id}] at x=${round(robot.position.x)}, z=${round(robot.position.z)}, facing ${Math.round(robot.rotation)}°, lifts up to ${robot.liftLimit}kg, holding: ${held.length > 0 ? held.join(" and ") : "nothing"}`;
+}
+
+// Live scene section of the prompt (objects + robots)
+export function describeScene(context: SceneContext): string {
+  const objects = context.objects.length > 0
+    ? context.objects.map((obj) => describeObject(obj, context)).join("\n")
+    : "- (none)";
+  const robots = context.robots.map((robot) => describeRobot(robot, context)).join("\n");
+
+  return `Objects in scene (x/z in meters on the ground plane, +x = right, -z = forward):
+${objects}
+
+Robots:
+${robots}`;
+}
+
+export function buildSystemPrompt(context?: SceneContext): string {
+  const scene = context
+    ? describeScene(context)
+    : "Scene state unavailable: use the object name or color exactly as the user says it.";
+  const clipNames = listClips().map((clip) => clip.name).join(", ") || "(none)";
+
+  return `You are a robot command parser. Convert natural language commands (Korean/English) into structured robot intents.
+
+${scene}
+
+Available commands:
+- pick <object>: Pick up object by name or color (빨간색, 초록색 = just color name)
+  - a robot can carry two small objects (one per hand) or one large object (both hands)
+- drop: Drop held object (내려놓다, 내리다, 놔, 내려놔)
+  - at a spot: "drop it at (1, 0, -2)" → targetPosition ("drop the ball at ..." → also objectName of the held ball)
+  - next to an object: "put it next to the blue ball" (파란 공 옆에 놔) → placement "nextTo" + objectName of that object
+  - on top of an object: "put it on the red box" (빨간 상자 위에 놔) → placement "on" + objectName of that object
+  - back where it was picked up: "put it back" (제자리에 놔) → placement "back" ("put the ball back" → also objectName)
+- stack <object> on <target>: Pick up object (unless already held) and put it on top of target (쌓아, 올려놔)
+  → objectName = the object to move, targetObjectName = the object underneath
+- throw [object] [toward target]: Throw the held object, or pick up objectName first (던져)
+  - toward an object: "throw the ball toward the green cylinder" (초록 실린더 쪽으로 던져) → targetObjectName
+  - to a spot: "throw it to (3, 0, 2)" → targetPosition
+  - no target: lands about 2m ahead
+- push <object> [toward target]: Slide an object along the ground, for objects too heavy to lift (밀어)
+  - same targets as throw (targetObjectName / targetPosition); no target: 1m further away from the robot
+- wave [side]: Wave arm
+- clip <name>: Play a recorded motion clip (클립 재생) → clipName, one of: ${clipNames}
+- reset: Return to default pose
+
+IMPORTANT:
+1. For MULTIPLE actions in one command (A하고 B해, A 내려놓고 B 들어), return ARRAY with ALL actions in sequence
+2. When user says only color (빨간색, 초록색), use objectName with just the color
+3. Sequential commands examples:
+   - "빨간색 내려놓고 초록색 주워" = [drop, pick green]
+   - "파란색 들고 빨간색 내려놔" = [pick blue, drop]
+   - "빨간색 놓고 파란색 집어" = [drop, pick blue]
+4. The order matters! Execute in the order user specifies
+5. Resolve references with the scene above: "the one next to the box" = the object whose nearest object is a box;
+   use that object's exact name and id. Objects held by a robot cannot be picked.
+6. For drop with "nextTo"/"on", objectName is ONLY the reference object - never the held object.
+   A plain drop may name the held object to let go of when the robot holds two ("drop the ball"); otherwise it drops everything.
+7. Spheres cannot carry anything on top, and an object with something on top cannot be picked until that is removed.
+8. Objects heavier than the robot's lift limit cannot be picked, stacked or thrown - only pushed.
+
+Respond ONLY with valid JSON ARRAY:
+[
+  {
+    "type": "pick" | "drop" | "stack" | "throw" | "push" | "wave" | "clip" | "reset" | "pose" | "unknown",
+    "objectName"?: string (for pick/stack/throw/push, the held object of a drop, or the reference of a "nextTo"/"on" drop - can be "red", "green", "blue", "red box", etc.),
+    "objectId"?: string (for pick/stack/throw/push - when you resolved a specific object from the scene),
+    "targetObjectName"?: string (for stack - the object underneath; for throw/push - the object to aim toward),
+    "targetObjectId"?: string (for stack/throw/push - when you resolved it from the scene),
+    "targetPosition"?: { "x": number, "y": number, "z": number } (for drop/throw/push at a location),
+    "placement"?: "nextTo" | "on" | "back" (for drop),
+    "side"?: "left" | "right" (for wave),
+    "clipName"?: string (for clip),
+    "robotId"?: string (only when the user addresses a specific robot by name),
+    "text": "original input"
+  }
+]
+
+Examples:
+Single commands:
+- "초록색 주워" -> [{"type":"pick","objectName":"green","text":"초록색 주워"}]
+- "빨간색 집어" -> [{"type":"pick","objectName":"red","text":"빨간색 집어"}]
+- "pick up the red box" -> [{"type":"pick","objectName":"red box","text":"pick up the red box"}]
+- "파란 공 주워" -> [{"type":"pick","objectName":"blue ball","text":"파란 공 주워"}]
+- "내려놓아" -> [{"type":"drop","text":"내려놓아"}]
+- "drop" -> [{"type":"drop","text":"drop"}]
+- "put it next to the blue ball" -> [{"type":"drop","placement":"nextTo","objectName":"blue ball","text":"put it next to the blue ball"}]
+- "빨간 상자 위에 놔" -> [{"type":"drop","placement":"on","objectName":"red box","text":"빨간 상자 위에 놔"}]
+- "stack the yellow cube on the red box" -> [{"type":"stack","objectName":"yellow cube","targetObjectName":"red box","text":"stack the yellow cube on the red box"}]
+- "노란 상자를 초록 실린더 위에 쌓아" -> [{"type":"stack","objectName":"yellow box","targetObjectName":"green cylinder","text":"노란 상자를 초록 실린더 위에 쌓아"}]
+- "제자리에 놔" -> [{"type":"drop","placement":"back","text":"제자리에 놔"}]
+- "throw the blue ball toward the green cylinder" -> [{"type":"throw","objectName":"blue ball","targetObjectName":"green cylinder","text":"throw the blue ball toward the green cylinder"}]
+- "던져" -> [{"type":"throw","text":"던져"}]
+- "push the crate toward the red box" -> [{"type":"push","objectName":"crate","targetObjectName":"red box","text":"push the crate toward the red box"}]
+- "drop it at (1, 0, -2)" -> [{"type":"drop","targetPosition":{"x":1,"y":0,"z":-2},"text":"drop it at (1, 0, -2)"}]
+
+Multiple commands (순차 실행):
+- "빨간색 내려놓고 초록색 주워" -> [{"type":"drop","text":"빨간색 내려놓고 초록색 주워"},{"type":"pick","objectName":"green","text":"빨간색 내려놓고 초록색 주워"}]
+- "파란색 들고 빨간색 놓아" -> [{"type":"pick","objectName":"blue","text":"파란색 들고 빨간색 놓아"},{"type":"drop","text":"파란색 들고 빨간색 놓아"}]
+- "초록색 내리고 파란색 들어" -> [{"type":"drop","text":"초록색 내리고 파란색 들어"},{"type":"pick","objectName":"blue","text":"초록색 내리고 파란색 들어"}]
+- "drop and pick up blue" -> [{"type":"drop","text":"drop and pick up blue"},{"type":"pick","objectName":"blue","text":"drop and pick up blue"}]
+- "wave right" -> [{"type":"wave","side":"right","text":"wave right"}]
+- "do the bow clip" -> [{"type":"clip","clipName":"bow","text":"do the bow clip"}]`;
+}
@@ -0,0 +1,297 @@
+/**
+ * ============================================
+ * RULE PARSER (규칙 기반 파서)
+ * ============================================
+ *
+ * 네트워크 없이 한국어/영어 명령을 Intent[]로 변환 (오프라인 기본 파서)
+ *
+ * 처리 순서:
+ * 1. 문장을 절(clause)로 나누기 ("~하고", "~고", "then", "and", ",")
+ * 2. 각 절의 동사 찾기 (클립 → 리셋 → 흔들기 → 관절 → 팔 올리기/내리기 → 던지기/밀기 → 쌓기 → 내려놓기 → 줍기)
+ * 3. 줍기라면 색상/형태로 objectName 만들기 ("파란 공" → "blue ball", 이름이 없으면 unknown)
+ *
+ * 예:
+ *   "빨간색 내려놓고 초록색 주워" → [drop, pick "green"]
+ *   "drop and pick up blue"       → [drop, pick "blue"]
+ *   "왼쪽 팔꿈치 45도"            → [pose left elbow flex 45]
+ *   "right shoulder roll 30"      → [pose right shoulder roll 30]
+ *   "do the bow clip"             → [clip "bow"]
+ *   "파란 공 옆에 놔"             → [drop nextTo "blue ball"]
+ *   "빨간 상자 위에 놔"           → [drop on "red box"]
+ *   "노란 상자를 빨간 상자 위에 쌓아" → [stack "yellow box" on "red box"]
+ *   "파란 공을 초록색 쪽으로 던져" → [throw "blue ball" toward "green"]
+ *   "push the crate to (2, 0, 2)" → [push "crate" targetPosition (2, 0, 2)]
+ *   "drop it at (1, 0, -2)"       → [drop targetPosition (1, 0, -2)]
+ *
+ * 확장 방법:
+ * - 새 색상: COLOR_WORDS에 추가
+ * - 새 형태: SHAPE_WORDS에 추가
+ * - 새 동사: parseClause()에 패턴 추가 (순서 중요! "흔들어"는 "들어"를 포함)
+ */
+
+import type { Intent, Side, Joint } from "./types";
+import { listClips } from "./motionClips";
+
+// 색상 키워드 → 영어 색상 이름 (오브젝트 이름과 같은 표기)
+const COLOR_WORDS: [RegExp, string][] = [
+  [/빨간|빨강|\bred\b/, "red"],
+  [/파란|파랑|\bblue\b/, "blue"],
+  [/초록|녹색|\bgreen\b/, "green"],
+  [/노란|노랑|\byellow\b/, "yellow"],
+  [/보라|\bpurple\b/, "purple"],
+];
+
+// 형태 키워드 → 영어 형태 이름
+const SHAPE_WORDS: [RegExp, string][] = [
+  [/나무\s*상자|\bcrate\b/, "crate"], // Before 상자
+  [/상자|박스|\bbox\b/, "box"],
+  [/큐브|\bcube\b/, "cube"],
+  [/실린더|원기둥|\bcylinder\b/, "cylinder"],
+  [/공|\bball\b/, "ball"],
+  [/구체|\bsphere\b/, "sphere"],
+];
+
+const JOINT_WORDS: [RegExp, Joint][] = [
+  [/어깨|\bshoulder\b/, "shoulder"],
+  [/팔꿈치|\belbow\b/, "elbow"],
+  [/고관절|엉덩이|\bhip\b/, "hip"],
+  [/무릎|\bknee\b/, "knee"],
+];
+
+// 절 나누기: "~고 ", "~하고", "~서 ", "그리고", "다음에", "then", "and", 쉼표
+const CLAUSE_SPLIT = /\s*(?:,|;|\band then\b|\bthen\b|\band\b|그리고|(?:한\s*)?다음에?|(?:한\s*)?뒤에?)\s*|(?<=[가-힣])고\s+|(?<=[어아워])서\s+/i;
+
+const RESET = /리셋|초기화|원래대로|\breset\b/;
+const WAVE = /흔들|인사|\bwave\b/;
+const ARM = /팔|\barm\b/;
+const ROLL = /롤|옆으로|\broll\b/;
+const CLIP = /클립|\bclip\b|\bplay\b|재생/;
+const CLIP_NAME = /(\S+)\s*(?:클립|\bclip\b)/;
+const RAISE = /올려|올리|들어|\braise\b|\bup\b/;
+const LOWER = /내려|내리|\blower\b|\bdown\b/;
+const DROP = /내려\s*놓|내려\s*놔|내려|내리|놓|놔|둬|두어|\bdrop\b|\bput\b|\bplace\b|\brelease\b|\blet go\b/;
+const BACK = /\bback\b|제자리|원래\s*(?:자리|위치|곳)/;
+const NEXT_TO_EN = /\b(?:next to|beside|by)\b(.*)/;
+const NEXT_TO_KO = /(.*)옆/;
+const ON_EN = /\b(?:on top of|onto|on)\b(.*)/;
+const ON_KO = /(.*)위(?!치)/;
+const STACK = /쌓|\bstack\b|\bpile\b/;
+const THROW = /던져|던지|\bthrow\b|\btoss\b/;
+const PUSH = /밀어|밀고|밀기|\bpush\b|\bshove\b|\bslide\b/;
+const TOWARD_EN = /\b(?:towards?|at|to)\b(.*)/;
+const TOWARD_KO = /(.*?)\s*(?:쪽|방향|에게|한테)/;
+const COORDS = /\(\s*(-?\d+(?:\.\d+)?)\s+(-?\d+(?:\.\d+)?)\s+(-?\d+(?:\.\d+)?)\s*\)/;
+const PICK = /주워|줍|집어|집|들어|들|잡|가져|\bpick\b|\bgrab\b|\btake\b|\blift\b|\bget\b/;
+
+function findSide(clause: string): Side | undefined {
+  if (/왼|\bleft\b/.test(clause)) return "left";
+  if (/오른|\bright\b/.test(clause)) return "right";
+  return undefined;
+}
+
+function findWord<T>(clause: string, words: [RegExp, T][]): T | undefined {
+  return words.find(([pattern]) => pattern.test(clause))?.[1];
+}
+
+// "파란 공" → "blue ball", "초록색" → "green", "box" → "box"
+export function extractObjectName(clause: string): string | undefined {
+  const lower = clause.toLowerCase();
+  const color = findWord(lower, COLOR_WORDS);
+  const shape = findWord(lower, SHAPE_WORDS);
+  if (color && shape) return `${color} ${shape}`;
+  return color ?? shape;
+}
+
+// "X on Y" / "X를 Y 위에": the object to move (missing = the held one) and the object underneath
+function splitOnTop(clause: string): { objectName?: string; targetObjectName: string } | null {
+  const en = clause.match(ON_EN);
+  let object: string | undefined;
+  let target: string | undefined;
+  if (en) {
+    object = clause.slice(0, en.index);
+    target = en[1];
+  } else {
+    const ko = clause.match(ON_KO);
+    if (!ko) return null;
+    const parts = ko[1].split(/(?:을|를)\s+/);
+    target = parts.length > 1 ? parts.slice(1).join(" ") : ko[1].split(/\s+/).slice(-3).join(" ");
+    object = parts.length > 1 ? parts[0] : undefined;
+  }
+
+  const targetObjectName = extractObjectName(target);
+  if (!targetObjectName) return null;
+  const objectName = object ? extractObjectName(object) : undefined;
+  return objectName ? { objectName, targetObjectName } : { targetObjectName };
+}
+
+// "stack X on Y"; without X the held object goes on Y
+function parseStack(clause: string, text: string): Intent | null {
+  const onTop = splitOnTop(clause);
+  return onTop ? { type: "stack", ...onTop, text } : null;
+}
+
+// "throw the ball toward the box" / "공을 상자 쪽으로 밀어" / "push it to (2, 0, 1)"
+function parseAimed(type: "throw" | "push", clause: string, text: string): Intent {
+  const coords = clause.match(COORDS);
+  const toward = coords ? null : clause.match(TOWARD_EN);
+  const towardKo = coords || toward ? null : clause.match(TOWARD_KO);
+
+  let object = coords ? clause.slice(0, coords.index) : clause;
+  let target: string | undefined;
+  if (toward) {
+    object = clause.slice(0, toward.index);
+    target = toward[1];
+  } else if (towardKo) {
+    const parts = towardKo[1].split(/(?:을|를)\s+/);
+    object = parts.length > 1 ? parts[0] : "";
+    target = parts[parts.length - 1];
+  }
+
+  const intent: Intent = { type, text };
+  const objectName = extractObjectName(object);
+  const targetObjectName = target ? extractObjectName(target) : undefined;
+  if (objectName) intent.objectName = objectName;
+  if (targetObjectName) intent.targetObjectName = targetObjectName;
+  if (coords) {
+    const [x, y, z] = coords.slice(1, 4).map(parseFloat);
+    intent.targetPosition = { x, y, z };
+  }
+  return intent;
+}
+
+// Drop target: coordinates, "back where it was", next to or on top of an object.
+// With coordinates or "back" the object named (if any) is the held one to put down.
+function parseDrop(clause: string, text: string): Intent {
+  const coords = clause.match(COORDS);
+  if (coords) {
+    const [x, y, z] = coords.slice(1, 4).map(parseFloat);
+    const heldName = extractObjectName(clause.slice(0, coords.index));
+    return heldName
+      ? { type: "drop", objectName: heldName, targetPosition: { x, y, z }, text }
+      : { type: "drop", targetPosition: { x, y, z }, text };
+  }
+
+  if (BACK.test(clause)) {
+    const heldName = extractObjectName(clause);
+    return heldName ? { type: "drop", placement: "back", objectName: heldName, text } : { type: "drop", placement: "back", text };
+  }
+
+  // "next to the blue ball" (name after) / "파란 공 옆에" (name before)
+  const reference = clause.match(NEXT_TO_EN)?.[1] ?? clause.match(NEXT_TO_KO)?.[1].split(/\s+/).slice(-3).join(" ");
+  const objectName = reference ? extractObjectName(reference) : undefined;
+  if (objectName) {
+    return { type: "drop", placement: "nextTo", objectName, text };
+  }
+
+  // "put it on the red box" / "빨간 상자 위에 놔"; naming what to put there makes it a stack
+  const onTop = splitOnTop(clause);
+  if (onTop?.objectName) {
+    return { type: "stack", ...onTop, text };
+  }
+  if (onTop) {
+    return { type: "drop", placement: "on", objectName: onTop.targetObjectName, text };
+  }
+
+  return { type: "drop", text };
+}
+
+// 모션 클립: "do the bow clip", "play cheer", "bow 클립 재생"
+// 등록된 클립 이름이 있으면 그 이름, 없으면 "clip"/"클립" 바로 앞 단어 → 없는 클립은 intentRunner가 거절
+// "play with the red ball"처럼 클립 이름이 없으면 null (클립 명령이 아님)
+function parseClip(clause: string, text: string): Intent | null {
+  const known = listClips()
+    .map((clip) => clip.name)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => clause.includes(name.toLowerCase()));
+  const clipName = known ?? clause.match(CLIP_NAME)?.[1];
+  return clipName ? { type: "clip", clipName, text } : null;
+}
+
+// Parse one clause; `text` is the full original command (kept on every intent)
+function parseClause(clause: string, text: string): Intent | null {
+  const lower = clause.toLowerCase().trim();
+  if (!lower) return null;
+
+  const clip = CLIP.test(lower) ? parseClip(lower, text) : null;
+  if (clip) {
+    return clip;
+  }
+
+  if (RESET.test(lower)) {
+    return { type: "reset", text };
+  }
+
+  if (WAVE.test(lower)) {
+    return { type: "wave", side: findSide(lower) ?? "right", text };
+  }
+
+  // Joint rotation: "rotate left elbow 45", "왼쪽 팔꿈치 45도", "right shoulder roll -40"
+  const joint = findWord(lower, JOINT_WORDS);
+  const angleMatch = lower.match(/(-?\d+(?:\.\d+)?)\s*(?:도|deg|°)?/);
+  if (joint && angleMatch) {
+    return {
+      type: "pose",
+      side: findSide(lower) ?? "right",
+      joint,
+      axis: joint === "elbow" || joint === "knee" ? "flex" : ROLL.test(lower) ? "roll" : "pitch",
+      angle: parseFloat(angleMatch[1]),
+      text,
+    };
+  }
+
+  // Raise / lower arm: "오른팔 올려", "lower left arm"
+  if (ARM.test(lower) && !extractObjectName(lower)) {
+    const side = findSide(lower) ?? "right";
+    if (LOWER.test(lower)) {
+      return { type: "pose", side, joint: "shoulder", axis: "pitch", angle: 0, text };
+    }
+    if (RAISE.test(lower)) {
+      return { type: "pose", side, joint: "shoulder", axis: "pitch", angle: 90, text };
+    }
+  }
+
+  if (THROW.test(lower)) {
+    return parseAimed("throw", lower, text);
+  }
+
+  if (PUSH.test(lower)) {
+    return parseAimed("push", lower, text);
+  }
+
+  if (STACK.test(lower)) {
+    return parseStack(lower, text);
+  }
+
+  if (DROP.test(lower)) {
+    return parseDrop(lower, text);
+  }
+
+  // 집을 물건 이름이 있어야 pick: "get up", "take a bow"는 pick이 아님
+  if (PICK.test(lower)) {
+    const objectName = extractObjectName(lower);
+    return objectName ? { type: "pick", objectName, text } : null;
+  }
+
+  return null;
+}
+
+export function parseCommandWithRules(text: string): Intent[] {
+  // Commas inside "(1, 0, -2)" are not clause breaks
+  const protectedText = text.trim().replace(/\([^)]*\)/g, (group) => group.replace(/,/g, " "));
+  const clauses = protectedText.split(CLAUSE_SPLIT).filter((c) => c && c.trim());
+  const intents: Intent[] = [];
+
+  for (const clause of clauses) {
+    const intent = parseClause(clause, text);
+    if (intent) {
+      intents.push(intent);
+    } else if (extractObjectName(clause) && clauses.length > 1) {
+      // Object-only fragment of a chain ("빨간색 내려놓고" split oddly) - skip it
+      continue;
+    } else {
+      intents.push({ type: "unknown", text });
+    }
+  }
+
+  return intents.length > 0 ? intents : [{ type: "unknown", text }];
+}
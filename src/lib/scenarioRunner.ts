@@ -0,0 +1,304 @@
+import type { Intent, Robot, PickableObject, Side, Vector3 } from "./types";
+import { World, type WorldState } from "./world";
+import { dispatchIntent } from "./intentRunner";
+import { createDefaultRobots, createDefaultObjects } from "./defaultScene";
+import { createClarification, answerClarification, type PendingClarification } from "./conversation";
+import { splitAddressedCommand } from "./addressing";
+import type { PlanRunner } from "./actionExecutor";
+import { heldObjectIds } from "./hands";
+import { forwardKinematics, type JointName } from "./forwardKinematics";
+import { jointAngle } from "./poseConstraints";
+
+/**
+ * ============================================
+ * SCENARIO RUNNER (시나리오 러너)
+ * ============================================
+ *
+ * Runs a scripted sequence of commands/intents against a headless World and
+ * checks the final state. A scenario is plain data, so it can live in a .ts
+ * module or be loaded from JSON.
+ *
+ * 예:
+ *   { name: "pick green",
+ *     steps: [{ intent: { type: "pick", objectName: "green", text: "초록색 주워" } }],
+ *     expect: { robots: [{ id: "robot-1", holding: ["obj-3"] }], planSteps: [7] } }
+ */
+
+const FRAME_MS = 1000 / 60; // Real time per render frame for scenarios that set a speed
+
+interface StepOptions {
+  expectRejected?: boolean;
+  expectQuestion?: string; // The robot must ask exactly this
+  expectReason?: string; // The rejection reason must contain this
+  wait?: boolean; // false = start the plan and go on while it runs (single-intent steps; default true)
+}
+
+export type ScenarioStep =
+  | ({ command: string } & StepOptions) // Parsed with the runner's parser; may be addressed ("ANDREA 2, ...")
+  | ({ intent: Intent } & StepOptions)
+  | { answer: string }; // Reply to the robot's pending question
+
+export interface RobotExpectation {
+  id: string;
+  holding?: string[]; // Ids of everything in hand, in any order ([] = empty hands)
+  hands?: Partial<Record<Side, string | null>>;
+  position?: Partial<Vector3>;
+  rotation?: number;
+  pose?: Record<string, number>; // Joint path → degrees, e.g. { "rightArm.elbow.flex": 50 }
+  joints?: Partial<Record<JointName, Partial<Vector3>>>; // World positions from forwardKinematics(), e.g. { rightHand: { y: -0.9 } }
+}
+
+export interface ObjectExpectation {
+  id: string;
+  position?: Partial<Vector3>;
+  isPicked?: boolean;
+  restingOn?: string | null; // null = on the ground
+}
+
+export interface ScenarioExpectation {
+  robots?: RobotExpectation[];
+  objects?: ObjectExpectation[];
+  planSteps?: number[]; // Step count of every plan started, in order
+  tolerance?: number; // Position tolerance (default 0.05)
+  angleTolerance?: number; // Rotation/joint tolerance in degrees (default 1)
+  ticks?: number; // Clock ticks the whole run took
+  repeatable?: boolean; // A second run from the same start must end in the same state after the same ticks
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  robots?: Robot[]; // Defaults to the app's default scene
+  objects?: PickableObject[];
+  speed?: number; // Drive the clock in 60 fps frames at this speed, like the render loop (default: tick by tick)
+  steps: ScenarioStep[];
+  expect: ScenarioExpectation;
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  simulatedMs: number;
+}
+
+// Receives the world state at the time of the command (for scene-aware parsers)
+export type CommandParser = (text: string, scene: WorldState) => Intent[] | Promise<Intent[]>;
+
+export interface ScenarioRunOptions {
+  parseCommand?: CommandParser;
+  maxStepMs?: number; // Safety limit per plan (simulated ms)
+}
+
+function checkVector(label: string, actual: Vector3, expected: Partial<Vector3>, tolerance: number, failures: string[]) {
+  for (const axis of ["x", "y", "z"] as const) {
+    const want = expected[axis];
+    if (want === undefined) continue;
+    if (Math.abs(actual[axis] - want) > tolerance) {
+      failures.push(`${label}.${axis}: expected ${want} ±${tolerance}, got ${actual[axis].toFixed(3)}`);
+    }
+  }
+}
+
+function checkExpectations(world: World, expect: ScenarioExpectation, planSteps: number[], failures: string[]) {
+  const tolerance = expect.tolerance ?? 0.05;
+  const angleTolerance = expect.angleTolerance ?? 1;
+
+  for (const exp of expect.robots ?? []) {
+    const robot = world.getRobot(exp.id);
+    if (!robot) {
+      failures.push(`robot ${exp.id}: not found`);
+      continue;
+    }
+    if (exp.holding) {
+      const held = heldObjectIds(robot);
+      if (held.length !== exp.holding.length || exp.holding.some((id) => !held.includes(id))) {
+        failures.push(`robot ${exp.id} holding: expected [${exp.holding.join(", ")}], got [${held.join(", ")}]`);
+      }
+    }
+    for (const [side, want] of Object.entries(exp.hands ?? {})) {
+      const got = robot.hands[side as Side];
+      if (got !== want) failures.push(`robot ${exp.id} ${side} hand: expected ${want}, got ${got}`);
+    }
+    if (exp.position) {
+      checkVector(`robot ${exp.id} position`, robot.position, exp.position, tolerance, failures);
+    }
+    if (exp.rotation !== undefined && Math.abs(robot.rotation - exp.rotation) > angleTolerance) {
+      failures.push(`robot ${exp.id} rotation: expected ${exp.rotation}, got ${robot.rotation.toFixed(2)}`);
+    }
+    if (exp.pose) {
+      for (const [path, want] of Object.entries(exp.pose)) {
+        const got = jointAngle(robot.pose, path); // Optional joints (roll, torso) read as 0
+        if (Math.abs(got - want) > angleTolerance) {
+          failures.push(`robot ${exp.id} pose ${path}: expected ${want}, got ${got.toFixed(2)}`);
+        }
+      }
+    }
+    if (exp.joints) {
+      const skeleton = forwardKinematics(robot);
+      for (const [joint, want] of Object.entries(exp.joints)) {
+        checkVector(`robot ${exp.id} ${joint}`, skeleton[joint as JointName].position, want, tolerance, failures);
+      }
+    }
+  }
+
+  for (const exp of expect.objects ?? []) {
+    const obj = world.getObject(exp.id);
+    if (!obj) {
+      failures.push(`object ${exp.id}: not found`);
+      continue;
+    }
+    if (exp.isPicked !== undefined && obj.isPicked !== exp.isPicked) {
+      failures.push(`object ${exp.id} isPicked: expected ${exp.isPicked}, got ${obj.isPicked}`);
+    }
+    if (exp.restingOn !== undefined && (obj.restingOn ?? null) !== exp.restingOn) {
+      failures.push(`object ${exp.id} restingOn: expected ${exp.restingOn}, got ${obj.restingOn ?? null}`);
+    }
+    if (exp.position) {
+      checkVector(`object ${exp.id} position`, obj.position, exp.position, tolerance, failures);
+    }
+  }
+
+  if (expect.planSteps) {
+    const same = expect.planSteps.length === planSteps.length
+      && expect.planSteps.every((count, i) => count === planSteps[i]);
+    if (!same) {
+      failures.push(`plan steps: expected [${expect.planSteps.join(", ")}], got [${planSteps.join(", ")}]`);
+    }
+  }
+}
+
+// Tick until every plan has finished: one tick at a time, or frame by frame at `speed` the way the render loop does
+function runUntilIdle(world: World, speed: number | undefined, maxMs = 60_000): number {
+  if (speed === undefined) return world.runUntilIdle(maxMs);
+  world.clock.setSpeed(speed);
+  const startTime = world.clock.time;
+  while (!world.isIdle && world.clock.time - startTime < maxMs) {
+    world.clock.advance(FRAME_MS);
+  }
+  return world.clock.time - startTime;
+}
+
+// Everything a run ends with: the world state and the clock's tick count
+function finalState(world: World): string {
+  return JSON.stringify({ ...world.getState(), ticks: world.clock.tickCount });
+}
+
+// Run one scenario headlessly. Every plan is run to completion before the next intent.
+export async function runScenario(scenario: Scenario, options: ScenarioRunOptions = {}): Promise<ScenarioResult> {
+  const run = await playScenario(scenario, options);
+  const { world, failures } = run;
+  checkExpectations(world, scenario.expect, run.planSteps, failures);
+
+  if (scenario.expect.ticks !== undefined && world.clock.tickCount !== scenario.expect.ticks) {
+    failures.push(`ticks: expected ${scenario.expect.ticks}, got ${world.clock.tickCount}`);
+  }
+  if (scenario.expect.repeatable && finalState((await playScenario(scenario, options)).world) !== finalState(world)) {
+    failures.push("a second run from the same start ended differently");
+  }
+
+  return { name: scenario.name, passed: failures.length === 0, failures, simulatedMs: run.simulatedMs };
+}
+
+async function playScenario(scenario: Scenario, options: ScenarioRunOptions) {
+  const world = new World({
+    robots: scenario.robots ? structuredClone(scenario.robots) : createDefaultRobots(),
+    objects: scenario.objects ? structuredClone(scenario.objects) : createDefaultObjects(),
+  });
+  const failures: string[] = [];
+  const planSteps: number[] = [];
+  let simulatedMs = 0;
+  let pending: PendingClarification | null = null;
+  const inFlight: { label: string; runner: PlanRunner }[] = []; // Plans started with wait: false
+
+  const checkPlan = (label: string, runner: PlanRunner) => {
+    if (runner.currentStatus !== "completed") {
+      const reason = runner.failureReason ? ` (${runner.failureReason})` : "";
+      failures.push(`"${label}": plan ${runner.currentStatus}${reason}`);
+    }
+  };
+
+  for (const step of scenario.steps) {
+    let intents: Intent[];
+    if ("answer" in step) {
+      if (!pending) {
+        failures.push(`answer "${step.answer}": no pending question`);
+        break;
+      }
+      const answer = answerClarification(pending, step.answer);
+      pending = null;
+      if (answer.kind !== "resolved") {
+        failures.push(`answer "${step.answer}": ${answer.kind}`);
+        break;
+      }
+      intents = answer.intents;
+    } else if ("intent" in step) {
+      intents = [step.intent];
+    } else if (options.parseCommand) {
+      try {
+        const { robotId, command } = splitAddressedCommand(step.command, world.getRobots());
+        intents = await options.parseCommand(command, world.getState());
+        if (robotId) intents = intents.map((intent) => ({ ...intent, robotId }));
+      } catch (error) {
+        failures.push(`"${step.command}": parsing failed: ${error instanceof Error ? error.message : String(error)}`);
+        break;
+      }
+    } else {
+      failures.push(`"${step.command}": no command parser configured`);
+      break;
+    }
+
+    const expectRejected = "answer" in step ? false : (step.expectRejected || step.expectQuestion !== undefined || step.expectReason !== undefined);
+    let rejected = false;
+    let reason: string | undefined;
+    for (const [index, intent] of intents.entries()) {
+      const dispatch = dispatchIntent(world, intent);
+      if (!dispatch.ok) {
+        rejected = true;
+        reason = dispatch.reason;
+        if (dispatch.candidates && dispatch.candidates.length > 0) {
+          pending = createClarification(intent, dispatch.candidates, intents.slice(index + 1), dispatch.candidatesFor);
+        }
+        if (!expectRejected) failures.push(`"${intent.text}" rejected: ${dispatch.reason}`);
+        break;
+      }
+      if (dispatch.runner) {
+        planSteps.push(dispatch.runner.plan.steps.length);
+        if ("wait" in step && step.wait === false) {
+          inFlight.push({ label: intent.text, runner: dispatch.runner });
+          continue;
+        }
+        simulatedMs += runUntilIdle(world, scenario.speed, options.maxStepMs);
+        checkPlan(intent.text, dispatch.runner);
+        world.cancelAllPlans(); // Only left over after a timeout
+      }
+    }
+
+    if ("answer" in step) continue;
+    const label = "intent" in step ? step.intent.text : step.command;
+    if (expectRejected && !rejected) {
+      failures.push(`"${label}": expected to be rejected`);
+    }
+    if (step.expectQuestion !== undefined && pending?.question !== step.expectQuestion) {
+      failures.push(`"${label}": expected question "${step.expectQuestion}", got ${pending ? `"${pending.question}"` : "none"}`);
+    }
+    if (step.expectReason !== undefined && !reason?.includes(step.expectReason)) {
+      failures.push(`"${label}": expected a rejection mentioning "${step.expectReason}", got ${reason ? `"${reason}"` : "none"}`);
+    }
+  }
+
+  // Let plans started without waiting finish before checking the final state
+  simulatedMs += runUntilIdle(world, scenario.speed, options.maxStepMs);
+  world.cancelAllPlans();
+  inFlight.forEach(({ label, runner }) => checkPlan(label, runner));
+
+  return { world, failures, planSteps, simulatedMs };
+}
+
+export async function runScenarios(scenarios: Scenario[], options: ScenarioRunOptions = {}): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    results.push(await runScenario(scenario, options));
+  }
+  return results;
+}
@@ -0,0 +1,104 @@
+import { clamp } from "./clamp";
+
+/**
+ * Fixed-step simulation clock.
+ *
+ * Motion is driven by ticks of exactly SIM_TICK_MS of simulated time, never by
+ * wall time. The render loop feeds real frame deltas into `advance()`; headless
+ * code calls `step()` / `runFor()` directly. Either way the same plan produces
+ * the same sequence of poses.
+ */
+
+export const SIM_TICK_MS = 1000 / 60;
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 10;
+
+// Upper bound on catch-up work per advance() (e.g. after a backgrounded tab)
+const MAX_TICKS_PER_ADVANCE = 60 * MAX_SPEED;
+
+export type TickListener = (dtMs: number, timeMs: number) => void;
+
+export class SimulationClock {
+  private ticks = 0;
+  private accumulator = 0;
+  private speed = 1;
+  private paused = false;
+  private listeners = new Set<TickListener>();
+
+  // Simulated time in ms since the clock was created
+  get time(): number {
+    return this.ticks * SIM_TICK_MS;
+  }
+
+  get tickCount(): number {
+    return this.ticks;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get speedMultiplier(): number {
+    return this.speed;
+  }
+
+  setSpeed(multiplier: number) {
+    this.speed = clamp(multiplier, MIN_SPEED, MAX_SPEED);
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
+  onTick(listener: TickListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Feed real elapsed time (ms); runs as many whole ticks as it covers at the current speed
+  advance(realDeltaMs: number): number {
+    if (this.paused) return 0;
+
+    this.accumulator += realDeltaMs * this.speed;
+    let ran = 0;
+    while (this.accumulator >= SIM_TICK_MS && ran < MAX_TICKS_PER_ADVANCE) {
+      this.accumulator -= SIM_TICK_MS;
+      this.tick();
+      ran++;
+    }
+    if (ran === MAX_TICKS_PER_ADVANCE) {
+      this.accumulator = 0; // Drop the backlog instead of fast-forwarding through it
+    }
+    return ran;
+  }
+
+  // Advance exactly one tick, even while paused (single-step debugging)
+  step() {
+    this.tick();
+  }
+
+  // Headless stepping: run enough ticks to cover `simMs` of simulated time
+  runFor(simMs: number) {
+    const count = Math.ceil(simMs / SIM_TICK_MS);
+    for (let i = 0; i < count; i++) {
+      this.tick();
+    }
+  }
+
+  private tick() {
+    this.ticks++;
+    const time = this.time;
+    // Copy so listeners can unsubscribe (or subscribe) from inside a tick
+    [...this.listeners].forEach((listener) => listener(SIM_TICK_MS, time));
+  }
+}
+
+// Shared clock driven by the render loop
+export const simulationClock = new SimulationClock();
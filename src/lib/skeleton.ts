@@ -0,0 +1,81 @@
+import type { TorsoAngles, Vector3 } from "./types";
+
+/**
+ * Body dimensions and joint conventions shared by the renderer and the kinematics code.
+ *
+ * Robot-local frame: origin at `robot.position` (torso centre), x to the robot's
+ * right, y up, -z forward. A local point goes to the world by turning it about y
+ * by -rotation and adding the position, so rotation 0 faces -z and 90 faces +x
+ * (the planner's angleTo()).
+ *
+ * Joint signs, in degrees: shoulder and hip pitch > 0 swing the limb forward, roll
+ * > 0 moves it out to the side, elbow flex > 0 bends the forearm forward, knee
+ * flex > 0 bends the shin back, torso pitch > 0 leans forward, torso roll > 0
+ * tilts it to the left and torso yaw > 0 turns the chest to the right. Arms hang
+ * from the torso and turn with it; legs do not. The head turns (yaw > 0: right)
+ * then nods (pitch > 0: down) on the neck. The hand turns about its own centre:
+ * wrist twist > 0 turns the palm forward, then flex > 0 bends it towards the palm.
+ */
+
+export const SKELETON = {
+  torso: { x: 0.3, y: 0.5, z: 0.175 }, // Half-size of the torso box
+  shoulder: { x: 0.35, y: 0.35 }, // From the torso centre, before the torso leans
+  neck: 0.5, // Torso centre to the neck joint
+  eyes: 0.27, // Neck joint to the visor
+  upperArm: 0.5,
+  forearm: 0.42, // Elbow to the centre of the hand
+  handHalfWidth: 0.05,
+  hip: { x: 0.18, y: -0.5 },
+  thigh: 0.6,
+  shin: 0.5, // Knee to the ankle (centre of the foot)
+  footHeight: 0.08,
+};
+
+export const STANDING_Y = -0.35; // robot.position.y standing straight, soles on the ground (y = -2)
+
+function rad(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Positive angles follow the conventions above: pitch swings -y towards -z, roll swings -y towards +x
+export function rotateX(v: Vector3, degrees: number): Vector3 {
+  const c = Math.cos(rad(degrees));
+  const s = Math.sin(rad(degrees));
+  return { x: v.x, y: c * v.y - s * v.z, z: s * v.y + c * v.z };
+}
+
+// Yaw: turns -z towards +x (to the right, like robot.rotation)
+export function rotateY(v: Vector3, degrees: number): Vector3 {
+  const c = Math.cos(rad(degrees));
+  const s = Math.sin(rad(degrees));
+  return { x: c * v.x - s * v.z, y: v.y, z: s * v.x + c * v.z };
+}
+
+export function rotateZ(v: Vector3, degrees: number): Vector3 {
+  const c = Math.cos(rad(degrees));
+  const s = Math.sin(rad(degrees));
+  return { x: c * v.x - s * v.y, y: s * v.x + c * v.y, z: v.z };
+}
+
+// Torso frame → robot-local frame (tilt, twist, then lean forward)
+export function torsoToLocal(v: Vector3, torso: TorsoAngles = { pitch: 0, roll: 0 }): Vector3 {
+  return rotateX(rotateY(rotateZ(v, torso.roll), torso.yaw ?? 0), -torso.pitch);
+}
+
+export function localToTorso(v: Vector3, torso: TorsoAngles = { pitch: 0, roll: 0 }): Vector3 {
+  return rotateZ(rotateY(rotateX(v, torso.pitch), -(torso.yaw ?? 0)), -torso.roll);
+}
+
+export function localToWorld(v: Vector3, position: Vector3, rotation: number): Vector3 {
+  const c = Math.cos(rad(rotation));
+  const s = Math.sin(rad(rotation));
+  return { x: position.x + c * v.x - s * v.z, y: position.y + v.y, z: position.z + s * v.x + c * v.z };
+}
+
+export function worldToLocal(v: Vector3, position: Vector3, rotation: number): Vector3 {
+  const c = Math.cos(rad(rotation));
+  const s = Math.sin(rad(rotation));
+  const dx = v.x - position.x;
+  const dz = v.z - position.z;
+  return { x: c * dx + s * dz, y: v.y - position.y, z: -s * dx + c * dz };
+}
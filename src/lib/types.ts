@@ -1,6 +1,7 @@
 export interface ArmJointAngles {
   shoulder: { pitch: number; roll?: number }; // roll = arm away from body (abduction)
   elbow: { flex: number };
+  wrist?: { flex: number; twist: number }; // flex = hand bent towards the palm, twist = palm turned forward (unset = straight)
 }
 
 export interface LegJointAngles {
@@ -8,17 +9,32 @@ export interface LegJointAngles {
   knee: { flex: number };
 }
 
+// Fingers move as one group; the thumb has its own curl and swings across the palm to oppose them
+export interface HandJointAngles {
+  thumb: { flex: number; opposition: number }; // opposition = thumb swung in front of the palm
+  fingers: { flex: number; spread: number };   // flex = curl at each knuckle, spread = fanned apart
+}
+
 export interface TorsoAngles {
   pitch: number; // Forward/backward lean
   roll: number;  // Left/right tilt
+  yaw?: number;  // Twist at the waist, > 0 turns the chest to the right
+}
+
+export interface NeckAngles {
+  yaw: number;   // > 0 turns the head to the right
+  pitch: number; // > 0 looks down
 }
 
 export interface FullPose {
   torso?: TorsoAngles; // Optional for backward compatibility
+  neck?: NeckAngles; // Unset = looking straight ahead
   leftArm: ArmJointAngles;
   rightArm: ArmJointAngles;
   leftLeg: LegJointAngles;
   rightLeg: LegJointAngles;
+  leftHand?: HandJointAngles; // Unset = open hand
+  rightHand?: HandJointAngles;
 }
 
 export interface Vector3 {
@@ -27,6 +43,13 @@ export interface Vector3 {
   z: number;
 }
 
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
 export interface PickableObject {
   id: string;
   name: string; // e.g., "red box", "blue ball"
@@ -34,7 +57,10 @@ export interface PickableObject {
   position: Vector3;
   color: string;
   size: number;
+  mass: number; // kg; objects over a robot's liftLimit can only be pushed
   isPicked: boolean;
+  restingOn?: string | null; // Id of the object this one is stacked on (unset = on the ground)
+  orientation?: Quaternion; // How it settled in physics mode (unset = upright)
 }
 
 export interface Robot {
@@ -42,14 +68,18 @@ export interface Robot {
   name: string;
   pose: FullPose;
   position: Vector3;
-  rotation: number; // Y-axis rotation in degrees (0 = facing +Z)
-  holdingObjectId: string | null;
+  rotation: number; // Y-axis rotation in degrees (0 = facing -Z, 90 = facing +X; see skeleton.ts)
+  hands: Record<Side, string | null>; // Object in each hand; a two-handed grip puts the same id in both
+  liftLimit: number; // Heaviest object (kg) it can pick up
 }
 
-export type IntentType = "pose" | "delta" | "wave" | "reset" | "pick" | "drop" | "move" | "noop" | "unknown";
+export type IntentType = "pose" | "delta" | "wave" | "reset" | "pick" | "drop" | "stack" | "throw" | "push" | "move" | "clip" | "noop" | "unknown";
 export type Side = "left" | "right";
+export type Grip = Side | "both"; // Hand(s) an object is held with
 export type Joint = "shoulder" | "elbow" | "hip" | "knee";
-export type Axis = "pitch" | "flex";
+export type Axis = "pitch" | "flex" | "roll"; // roll: shoulder and hip only
+// Where a drop puts the held object: next to or on top of `objectName`, or back where it was picked up
+export type PlacementRelation = "nextTo" | "on" | "back";
 
 export interface Intent {
   type: IntentType;
@@ -58,20 +88,40 @@ export interface Intent {
   axis?: Axis;
   angle?: number;
   delta?: number;
-  targetPosition?: Vector3;
+  targetPosition?: Vector3; // drop: place the held object here / throw, push: land it here (y is ignored, it rests on the ground)
+  placement?: PlacementRelation; // drop: "nextTo"/"on" use objectName/objectId as the reference object
   objectId?: string;
   objectName?: string; // e.g., "red box", "blue ball"
+  targetObjectId?: string; // stack: the object to stack onto / throw, push: the object to aim toward
+  targetObjectName?: string;
+  robotId?: string; // Addressed robot ("ANDREA 2, ..."); default is the first robot
+  clipName?: string; // clip: motion clip to play, e.g. "bow"
   text: string;
 }
 
+// Chat panel log: parsed intents, parser errors the user should see, and the clarification dialogue
+export type ChatLogEntry =
+  | { kind: "intent"; intent: Intent }
+  | { kind: "error"; text: string; messages: string[] }
+  | { kind: "user"; text: string } // Reply to a robot question
+  | { kind: "robot"; text: string; options?: string[] }; // Robot asking back (options = quick answers)
+
 // Multi-step action plan system
-export type ActionStepType = "navigate" | "align" | "squat" | "reach" | "grasp" | "lift" | "drop" | "stand";
+export type ActionStepType =
+  | "navigate" | "align" | "squat" | "reach" | "grasp" | "lift" | "drop" | "place" | "stand" | "wave"
+  | "windUp" | "release" | "followThrough"
+  | "brace" | "push"
+  | "clip";
 
 export interface ActionStep {
   type: ActionStepType;
-  targetPosition?: Vector3; // For navigate
+  targetPosition?: Vector3; // For navigate (where to walk), drop, place, release and push (where the object ends up); align: point to look at
   targetRotation?: number; // For align (face object)
-  objectId?: string; // For grasp
+  objectId?: string; // For grasp and push; drop, place and release: which held object; align: object to look at
+  supportObjectId?: string; // For place: stack onto this object instead of the ground
+  side?: Side; // For wave
+  clipName?: string; // For clip
+  grip?: Grip; // For reach and grasp (default "right")
   duration?: number; // Step duration in ms
 }
 
@@ -0,0 +1,114 @@
+import type { Robot, PickableObject, ActionPlan, Quaternion, Vector3 } from "./types";
+import { SimulationClock } from "./simulationClock";
+import { supportUnder } from "./placement";
+import { PlanRunner, hasActivePlans, cancelAllPlans, type ExecutionContext } from "./actionExecutor";
+
+/**
+ * Framework-free simulation state.
+ *
+ * Owns every robot and object, applies action plans through its own clock and
+ * notifies subscribers on each change. React subscribes through `useWorld`;
+ * Node scripts and scenario runs drive it directly with `runUntilIdle()`.
+ *
+ * Updates are immutable: every change produces new arrays, so a snapshot taken
+ * from `getState()` never changes underneath its reader.
+ */
+
+export interface WorldState {
+  robots: Robot[];
+  objects: PickableObject[];
+}
+
+export type WorldListener = (state: WorldState) => void;
+
+export class World implements ExecutionContext {
+  readonly clock: SimulationClock;
+  private state: WorldState;
+  private listeners = new Set<WorldListener>();
+
+  constructor(initial: WorldState, clock: SimulationClock = new SimulationClock()) {
+    this.state = { robots: initial.robots, objects: initial.objects };
+    this.clock = clock;
+  }
+
+  getState(): WorldState {
+    return this.state;
+  }
+
+  getRobots(): Robot[] {
+    return this.state.robots;
+  }
+
+  getRobot(id: string): Robot | undefined {
+    return this.state.robots.find((r) => r.id === id);
+  }
+
+  getObjects(): PickableObject[] {
+    return this.state.objects;
+  }
+
+  getObject(id: string): PickableObject | undefined {
+    return this.state.objects.find((obj) => obj.id === id);
+  }
+
+  setRobots(fn: (prev: Robot[]) => Robot[]) {
+    this.state = { ...this.state, robots: fn(this.state.robots) };
+    this.emit();
+  }
+
+  setObjects(fn: (prev: PickableObject[]) => PickableObject[]) {
+    this.state = { ...this.state, objects: fn(this.state.objects) };
+    this.emit();
+  }
+
+  updateRobot(id: string, fn: (robot: Robot) => Robot) {
+    this.setRobots((prev) => prev.map((r) => (r.id === id ? fn(r) : r)));
+  }
+
+  // Physics mode: an object came to rest somewhere else than the world put it.
+  // Ignored while it is in hand, where the plan that holds it decides.
+  settleObject(id: string, position: Vector3, orientation: Quaternion) {
+    this.setObjects((prev) =>
+      prev.map((obj) => {
+        if (obj.id !== id || obj.isPicked) return obj;
+        return { ...obj, position, orientation, restingOn: supportUnder(obj, position, prev)?.id ?? null };
+      })
+    );
+  }
+
+  // Create and start a runner that applies the plan's steps to this world
+  runPlan(plan: ActionPlan, robotId: string): PlanRunner {
+    const runner = new PlanRunner(plan, robotId, this);
+    runner.start();
+    return runner;
+  }
+
+  get isIdle(): boolean {
+    return !hasActivePlans(this);
+  }
+
+  cancelAllPlans() {
+    cancelAllPlans(this);
+  }
+
+  // Headless stepping: tick the clock until every plan has finished.
+  // Returns the simulated time spent (ms); stops after `maxMs` as a safety net.
+  runUntilIdle(maxMs = 60_000): number {
+    const startTime = this.clock.time;
+    while (!this.isIdle && this.clock.time - startTime < maxMs) {
+      this.clock.step();
+    }
+    return this.clock.time - startTime;
+  }
+
+  subscribe(listener: WorldListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,35 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Named motion clips from clips/builtin.json (motionClips.ts)
+export const CLIP_SCENARIOS: Scenario[] = [
+  {
+    name: "the bow clip bends over and straightens up again",
+    steps: [{ command: "do the bow clip" }],
+    expect: {
+      robots: [{ id: "robot-1", pose: { "torso.pitch": 0, "neck.pitch": 0, "rightArm.shoulder.pitch": 0 } }],
+      planSteps: [1],
+    },
+  },
+  {
+    name: "a clip played while carrying keeps the grip",
+    steps: [
+      { command: "빨간색 집어" },
+      { command: "play cheer" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-1"], pose: { "rightArm.shoulder.pitch": 0, "rightHand.fingers.flex": 30 } }],
+      objects: [{ id: "obj-1", isPicked: true }],
+      planSteps: [7, 1],
+    },
+  },
+  {
+    name: "an unknown clip is rejected",
+    steps: [{ command: "play the dance clip", expectRejected: true }],
+    expect: { planSteps: [] },
+  },
+  {
+    name: "\"play\" without a clip name is not a clip",
+    steps: [{ command: "play with the red ball", expectReason: "Unknown command" }],
+    expect: { robots: [{ id: "robot-1", holding: [] }], planSteps: [] },
+  },
+];
@@ -0,0 +1,22 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// The same pick on the fixed-step clock (simulationClock.ts): stepped headlessly or fed 60 fps frames at a speed
+const pickRedBox = (name: string, speed: number | undefined, ticks: number): Scenario => ({
+  name,
+  ...(speed !== undefined ? { speed } : {}),
+  steps: [{ intent: { type: "pick", objectName: "red", text: "pick up the red box" } }],
+  expect: {
+    robots: [{ id: "robot-1", holding: ["obj-1"], position: { x: 1.15, z: -0.35 }, pose: { "rightArm.shoulder.pitch": 40, "rightHand.fingers.flex": 30 } }],
+    planSteps: [7],
+    ticks,
+    repeatable: true,
+  },
+});
+
+export const CLOCK_SCENARIOS: Scenario[] = [
+  pickRedBox("a plan stepped tick by tick ends the same on every run", undefined, 182),
+  pickRedBox("a plan played at 2.5x takes the same ticks to the same pose", 2.5, 182),
+  pickRedBox("a plan played at 0.25x takes the same ticks to the same pose", 0.25, 182),
+  // Each 10x frame runs 10 ticks; the frame the plan finishes in runs past the end
+  pickRedBox("a plan played at 10x ends in the same pose", 10, 190),
+];
@@ -0,0 +1,76 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Natural-language commands through the offline rule parser
+export const COMMAND_SCENARIOS: Scenario[] = [
+  {
+    name: "korean chain: drop then pick green",
+    steps: [
+      { command: "빨간색 집어" },
+      { command: "빨간색 내려놓고 초록색 주워" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-3"] }],
+      objects: [{ id: "obj-1", isPicked: false }],
+      planSteps: [7, 3, 7],
+    },
+  },
+  {
+    name: "english chain: drop and pick up blue",
+    steps: [
+      { command: "pick up the yellow cube" },
+      { command: "drop and pick up blue" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-2"] }],
+      objects: [{ id: "obj-4", isPicked: false }],
+      planSteps: [7, 3, 7],
+    },
+  },
+  {
+    name: "color and shape resolve together",
+    steps: [{ command: "보라색 공 잡아" }],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-5"] }] },
+  },
+  {
+    name: "joint rotation is clamped to limits",
+    steps: [
+      { command: "rotate left elbow 200 deg" },
+      { command: "오른팔 올려" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", pose: { "leftArm.elbow.flex": 145, "rightArm.shoulder.pitch": 90 } }],
+    },
+  },
+  {
+    name: "a shoulder roll through the chest is rejected",
+    steps: [
+      { command: "right shoulder roll 30" },
+      { command: "right shoulder roll -40", expectRejected: true },
+      { command: "left hip roll 60" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", pose: { "rightArm.shoulder.roll": 30, "leftLeg.hip.roll": 45 } }],
+    },
+  },
+  {
+    name: "everyday phrases with a pick verb but no object are not picks",
+    steps: [
+      { command: "get up", expectRejected: true },
+      { command: "take a bow", expectRejected: true },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: [] }], objects: [{ id: "obj-1", isPicked: false }], planSteps: [] },
+  },
+  {
+    name: "a pick that names no object is rejected, parsed or not",
+    steps: [
+      { command: "pick it up", expectRejected: true },
+      { intent: { type: "pick", text: "pick" }, expectReason: "What should be picked up?" },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: [] }], planSteps: [] },
+  },
+  {
+    name: "unrecognized command is rejected",
+    steps: [{ command: "make me a sandwich", expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [] }], planSteps: [] },
+  },
+];
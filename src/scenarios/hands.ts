@@ -0,0 +1,147 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import type { PickableObject } from "../lib/types";
+import { createDefaultObjects } from "../lib/defaultScene";
+
+// 0.5 m across: over TWO_HAND_SIZE, light enough to lift
+const bigBox: PickableObject = {
+  id: "big-box", name: "cardboard box", type: "box", position: { x: 1.5, y: -1.75, z: 1.5 }, color: "#d6b37c", size: 0.5, mass: 3, isPicked: false,
+};
+
+const withBigBox = () => [...createDefaultObjects(), { ...bigBox, position: { ...bigBox.position } }];
+
+// One object per hand, or one large object in both
+export const HANDS_SCENARIOS: Scenario[] = [
+  {
+    name: "two small objects are carried one per hand",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+    ],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        hands: { right: "obj-1", left: "obj-2" },
+        pose: {
+          "rightArm.shoulder.pitch": 40, "leftArm.shoulder.pitch": 40, "leftArm.elbow.flex": 50,
+          // Pinching the box, cupping the ball (grasp.ts)
+          "rightHand.thumb.opposition": 85, "rightHand.fingers.flex": 30, "leftHand.fingers.flex": 40, "leftHand.fingers.spread": 18,
+        },
+      }],
+      objects: [{ id: "obj-1", isPicked: true }, { id: "obj-2", isPicked: true }],
+      planSteps: [7, 7],
+    },
+  },
+  {
+    name: "a plain drop lets go of both, side by side",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+      { intent: { type: "drop", text: "내려놔" } },
+    ],
+    expect: {
+      // Robot in front of the ball facing -117°, the way it walked from the box: the box lands to its right, the ball to its left, 0.35 apart
+      robots: [{ id: "robot-1", holding: [], position: { x: -1.347, z: 0.529 }, pose: { "rightArm.shoulder.pitch": 0, "leftArm.shoulder.pitch": 0 } }],
+      objects: [
+        { id: "obj-1", isPicked: false, position: { x: -1.426, y: -1.85, z: 0.373 } },
+        { id: "obj-2", isPicked: false, position: { x: -1.268, y: -1.85, z: 0.685 } },
+      ],
+      planSteps: [7, 7, 4],
+    },
+  },
+  {
+    name: "dropping one named object keeps carrying the other",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+      { intent: { type: "drop", objectName: "red", text: "drop the red one" } },
+    ],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        hands: { right: null, left: "obj-2" },
+        pose: { "leftArm.shoulder.pitch": 40, "rightArm.shoulder.pitch": 10, "rightHand.fingers.flex": 0, "leftHand.fingers.flex": 40 },
+      }],
+      objects: [{ id: "obj-1", isPicked: false, position: { x: -1.347, z: 0.529 } }, { id: "obj-2", isPicked: true }],
+      planSteps: [7, 7, 3],
+    },
+  },
+  {
+    name: "placing one of two held objects puts down the one named",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+      { command: "put the blue ball back" },
+      { command: "drop the green cylinder at (1, 0, -2)", expectReason: "is not holding green cylinder" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", hands: { right: "obj-1", left: null } }],
+      // Already standing by the ball's spot: no walk before putting it back
+      objects: [{ id: "obj-2", isPicked: false, position: { x: -1.5, z: 1 } }, { id: "obj-1", isPicked: true }],
+      planSteps: [7, 7, 4],
+    },
+  },
+  {
+    name: "the fingers wrap round a cylinder",
+    steps: [{ intent: { type: "pick", objectName: "green", text: "초록색 주워" } }],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        hands: { right: "obj-3", left: null },
+        pose: { "rightHand.fingers.flex": 75, "rightHand.thumb.flex": 50, "rightHand.thumb.opposition": 70, "leftHand.fingers.flex": 0 },
+      }],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "a large object is held in both hands",
+    objects: withBigBox(),
+    steps: [{ intent: { type: "pick", objectName: "cardboard box", text: "pick up the cardboard box" } }],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        hands: { right: "big-box", left: "big-box" },
+        pose: { "rightArm.shoulder.pitch": 45, "leftArm.shoulder.pitch": 45, "leftArm.elbow.flex": 60 },
+      }],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "a large object needs both hands free",
+    objects: withBigBox(),
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "cardboard box", text: "pick up the cardboard box" }, expectRejected: true },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-1"] }],
+      objects: [{ id: "big-box", isPicked: false }],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "nothing else fits in the hands around a large object",
+    objects: withBigBox(),
+    steps: [
+      { intent: { type: "pick", objectName: "cardboard box", text: "pick up the cardboard box" } },
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" }, expectRejected: true },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["big-box"] }], planSteps: [7] },
+  },
+  {
+    name: "throwing the object in one hand keeps the other",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+      { command: "throw the blue ball" },
+    ],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        hands: { right: "obj-1", left: null },
+        pose: { "rightArm.shoulder.pitch": 40, "rightHand.fingers.flex": 30, "leftHand.fingers.flex": 0, "leftHand.thumb.opposition": 0 },
+      }],
+      objects: [{ id: "obj-2", isPicked: false }],
+      planSteps: [7, 7, 4],
+    },
+  },
+];
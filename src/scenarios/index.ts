@@ -0,0 +1,30 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import { PICK_AND_DROP_SCENARIOS } from "./pickAndDrop";
+import { COMMAND_SCENARIOS } from "./commands";
+import { MULTI_ROBOT_SCENARIOS } from "./multiRobot";
+import { NAVIGATION_SCENARIOS } from "./navigation";
+import { PLACEMENT_SCENARIOS } from "./placement";
+import { STACKING_SCENARIOS } from "./stacking";
+import { THROWING_SCENARIOS } from "./throwing";
+import { PUSHING_SCENARIOS } from "./pushing";
+import { HANDS_SCENARIOS } from "./hands";
+import { KINEMATICS_SCENARIOS } from "./kinematics";
+import { CLIP_SCENARIOS } from "./clips";
+import { POSE_SCENARIOS } from "./poses";
+import { CLOCK_SCENARIOS } from "./clock";
+
+export const ALL_SCENARIOS: Scenario[] = [
+  ...CLOCK_SCENARIOS,
+  ...PICK_AND_DROP_SCENARIOS,
+  ...COMMAND_SCENARIOS,
+  ...MULTI_ROBOT_SCENARIOS,
+  ...NAVIGATION_SCENARIOS,
+  ...PLACEMENT_SCENARIOS,
+  ...STACKING_SCENARIOS,
+  ...THROWING_SCENARIOS,
+  ...PUSHING_SCENARIOS,
+  ...HANDS_SCENARIOS,
+  ...KINEMATICS_SCENARIOS,
+  ...POSE_SCENARIOS,
+  ...CLIP_SCENARIOS,
+];
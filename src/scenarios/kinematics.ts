@@ -0,0 +1,43 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import { createDefaultRobots, DEFAULT_POSE } from "../lib/defaultScene";
+
+// Joint world positions from forwardKinematics()
+export const KINEMATICS_SCENARIOS: Scenario[] = [
+  {
+    name: "an idle robot's hands hang at its sides, feet on the ground",
+    steps: [],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        joints: { rightHand: { x: 0.35, y: -0.92, z: 0 }, leftHand: { x: -0.35, y: -0.92, z: 0 }, leftFoot: { y: -1.95 }, rightFoot: { y: -1.95 } },
+      }],
+    },
+  },
+  {
+    name: "a robot facing +x has its right hand towards +z",
+    robots: [{ ...createDefaultRobots()[0], rotation: 90 }],
+    steps: [],
+    expect: { robots: [{ id: "robot-1", joints: { rightHand: { x: 0, z: 0.35 }, leftHand: { x: 0, z: -0.35 } } }] },
+  },
+  {
+    name: "twisting at the waist swings the arms round with the chest",
+    robots: [{ ...createDefaultRobots()[0], pose: { ...DEFAULT_POSE, torso: { pitch: 0, roll: 0, yaw: 45 } } }],
+    steps: [],
+    // Turned 45° to the right: the right shoulder goes back, the left one forward
+    expect: { robots: [{ id: "robot-1", joints: { rightHand: { x: 0.247, y: -0.92, z: 0.247 }, leftHand: { x: -0.247, z: -0.247 } } }] },
+  },
+  {
+    name: "nodding brings the eyes forward and down",
+    robots: [{ ...createDefaultRobots()[0], pose: { ...DEFAULT_POSE, neck: { yaw: 0, pitch: 30 } } }],
+    steps: [],
+    expect: { robots: [{ id: "robot-1", joints: { neck: { y: 0.15 }, head: { x: 0, y: 0.384, z: -0.135 } } }] },
+  },
+  {
+    name: "the carrying hand ends up in front of the robot, above where the object was",
+    steps: [{ intent: { type: "pick", objectName: "red", text: "pick up the red box" } }],
+    expect: {
+      // Robot at (1.15, -0.35) facing +x; the box was at (1.5, 0), in front of the right shoulder
+      robots: [{ id: "robot-1", joints: { rightHand: { x: 1.892, y: -0.344, z: 0 }, rightFoot: { y: -1.95 } } }],
+    },
+  },
+];
@@ -0,0 +1,49 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Two robots: addressed commands, concurrent plans, no double grab
+export const MULTI_ROBOT_SCENARIOS: Scenario[] = [
+  {
+    name: "addressed command goes to the named robot",
+    steps: [{ command: "ANDREA 2, pick up the yellow cube" }],
+    expect: {
+      robots: [
+        { id: "robot-1", holding: [], position: { x: 0, z: 0 } },
+        { id: "robot-2", holding: ["obj-4"] },
+      ],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "korean address by number",
+    steps: [{ command: "2번 로봇, 초록색 주워" }],
+    expect: { robots: [{ id: "robot-2", holding: ["obj-3"] }] },
+  },
+  {
+    name: "both robots run their plans at the same time",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "pick up the red box" }, wait: false },
+      { intent: { type: "pick", objectName: "yellow", robotId: "robot-2", text: "ANDREA 2, pick up the yellow cube" } },
+    ],
+    expect: {
+      robots: [
+        { id: "robot-1", holding: ["obj-1"] },
+        { id: "robot-2", holding: ["obj-4"] },
+      ],
+      planSteps: [7, 7],
+    },
+  },
+  {
+    name: "two robots cannot grab the same object",
+    steps: [
+      { intent: { type: "pick", objectName: "blue", text: "pick up the blue ball" }, wait: false },
+      { command: "ANDREA 2, pick up the blue ball", expectRejected: true },
+    ],
+    expect: {
+      robots: [
+        { id: "robot-1", holding: ["obj-2"] },
+        { id: "robot-2", holding: [] },
+      ],
+      planSteps: [7],
+    },
+  },
+];
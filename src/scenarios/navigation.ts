@@ -0,0 +1,46 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import type { PickableObject } from "../lib/types";
+import { createDefaultRobots } from "../lib/defaultScene";
+
+function crate(id: string, x: number, z: number): PickableObject {
+  return { id, name: `crate ${id}`, type: "box", position: { x, y: -1.85, z }, color: "#9ca3af", size: 0.3, mass: 1, isPicked: false };
+}
+
+const target: PickableObject = {
+  id: "target", name: "red box", type: "box", position: { x: 3, y: -1.85, z: 0 }, color: "#ef4444", size: 0.3, mass: 1, isPicked: false,
+};
+
+// Eight crates in a tight ring around the target
+const ring = Array.from({ length: 8 }, (_, i) => {
+  const angle = (i / 8) * Math.PI * 2;
+  return crate(`ring-${i}`, 3 + Math.cos(angle) * 0.6, Math.sin(angle) * 0.6);
+});
+
+// Path planning around objects and other robots
+export const NAVIGATION_SCENARIOS: Scenario[] = [
+  {
+    name: "walks around an object in the way",
+    robots: [createDefaultRobots()[0]],
+    objects: [crate("blocker", 1.5, 0), target],
+    steps: [{ intent: { type: "pick", objectId: "target", text: "pick up the red box" } }],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["target"], position: { x: 2.65, z: -0.35 } }],
+      objects: [{ id: "blocker", isPicked: false, position: { x: 1.5, z: 0 } }],
+      planSteps: [9], // Two align/navigate segments instead of one
+    },
+  },
+  {
+    name: "walks around another robot",
+    robots: [createDefaultRobots()[0], { ...createDefaultRobots()[1], position: { x: 1.5, y: -0.35, z: 0 } }],
+    objects: [target],
+    steps: [{ intent: { type: "pick", objectId: "target", text: "pick up the red box" } }],
+    expect: { robots: [{ id: "robot-1", holding: ["target"] }], planSteps: [9] },
+  },
+  {
+    name: "no path to an enclosed object fails the plan",
+    robots: [createDefaultRobots()[0]],
+    objects: [...ring, target],
+    steps: [{ intent: { type: "pick", objectId: "target", text: "pick up the red box" }, expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [], position: { x: 0, z: 0 } }], planSteps: [] },
+  },
+];
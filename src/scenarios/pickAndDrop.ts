@@ -0,0 +1,115 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Baseline pick/drop behaviour on the default scene (robot-1 at the origin)
+export const PICK_AND_DROP_SCENARIOS: Scenario[] = [
+  {
+    name: "pick by color walks to the object and lifts it",
+    steps: [{ intent: { type: "pick", objectName: "green", text: "초록색 주워" } }],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        holding: ["obj-3"],
+        position: { x: 0.069, y: -0.35, z: -1.556 }, // Stands back so the object is in front of the right shoulder
+        pose: { "rightArm.shoulder.pitch": 40, "rightArm.elbow.flex": 50, "torso.pitch": -3 },
+      }],
+      objects: [{ id: "obj-3", isPicked: true }],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "pick by full name faces the object",
+    steps: [{ intent: { type: "pick", objectName: "red box", text: "pick up the red box" } }],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-1"], position: { x: 1.15, z: -0.35 }, rotation: 90 }],
+      planSteps: [7],
+    },
+  },
+  {
+    name: "ambiguous shape keyword asks which one",
+    steps: [
+      { intent: { type: "pick", objectName: "box", text: "pick up the box" }, expectQuestion: "Which box — red or yellow?" },
+      { answer: "the yellow one" },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-4"] }], planSteps: [7] },
+  },
+  {
+    name: "answering a question resumes the rest of the command",
+    steps: [
+      { command: "pick up the ball and wave", expectQuestion: "Which ball — blue or purple?" },
+      { answer: "second" },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-5"] }], planSteps: [7, 1] },
+  },
+  {
+    name: "objectId from a scene-aware parser picks that exact object",
+    steps: [{ intent: { type: "pick", objectName: "box", objectId: "obj-4", text: "pick up the box next to the cylinder" } }],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-4"] }] },
+  },
+  {
+    name: "drop puts the object at the robot's feet",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "drop", text: "내려놔" } },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: [], pose: { "rightArm.shoulder.pitch": 0, "torso.pitch": 0 } }],
+      objects: [{ id: "obj-1", isPicked: false, position: { x: 1.15, y: -1.85, z: -0.35 } }],
+      planSteps: [7, 3],
+    },
+  },
+  {
+    name: "drop then pick another object",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "drop", text: "빨간색 내려놓고 파란색 주워" } },
+      { intent: { type: "pick", objectName: "blue", text: "빨간색 내려놓고 파란색 주워" } },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-2"], position: { x: -1.029, z: 1.153 } }],
+      objects: [{ id: "obj-1", isPicked: false }, { id: "obj-2", isPicked: true }],
+      planSteps: [7, 3, 7],
+    },
+  },
+  {
+    name: "pick with both hands full is rejected",
+    steps: [
+      { intent: { type: "pick", objectName: "red", text: "빨간색 집어" } },
+      { intent: { type: "pick", objectName: "blue", text: "파란색 집어" } },
+      { intent: { type: "pick", objectName: "green", text: "초록색 집어" }, expectRejected: true },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-1", "obj-2"] }],
+      objects: [{ id: "obj-3", isPicked: false }],
+      planSteps: [7, 7],
+    },
+  },
+  {
+    name: "drop with empty hands is rejected",
+    steps: [{ intent: { type: "drop", text: "drop" }, expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [] }], planSteps: [] },
+  },
+  {
+    name: "unknown object is rejected",
+    steps: [{ intent: { type: "pick", objectName: "orange", text: "주황색 주워" }, expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [], position: { x: 0, z: 0 } }] },
+  },
+  {
+    name: "unknown object offers the objects in the scene",
+    steps: [
+      {
+        intent: { type: "pick", objectName: "orange", text: "주황색 주워" },
+        expectQuestion: 'I can\'t find "orange". Did you mean red box, blue ball, green cylinder, yellow cube or purple sphere?',
+      },
+      { answer: "초록색" },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-3"] }] },
+  },
+  {
+    name: "wave returns the arm to rest",
+    steps: [{ command: "wave right arm" }],
+    expect: {
+      robots: [{ id: "robot-1", pose: { "rightArm.shoulder.pitch": 0 } }],
+      planSteps: [1],
+    },
+  },
+];
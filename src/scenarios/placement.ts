@@ -0,0 +1,64 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Drop at a resolved target: next to an object, at coordinates, back where it was
+export const PLACEMENT_SCENARIOS: Scenario[] = [
+  {
+    name: "put it next to another object",
+    steps: [
+      { command: "pick up the red box" },
+      { command: "put it next to the blue ball" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: [] }],
+      // Beside the ball on the side facing the robot, 0.15 + 0.15 + 0.05 from its centre
+      objects: [{ id: "obj-1", isPicked: false, position: { x: -1.168, y: -1.85, z: 0.889 } }],
+      planSteps: [7, 6],
+    },
+  },
+  {
+    name: "drop at coordinates",
+    steps: [
+      { command: "pick up the red box" },
+      { command: "drop it at (1, 0, -2)" },
+    ],
+    expect: {
+      objects: [{ id: "obj-1", isPicked: false, position: { x: 1, y: -1.85, z: -2 } }],
+    },
+  },
+  {
+    name: "put it back where it was",
+    steps: [
+      { command: "빨간색 집어" },
+      { command: "제자리에 갖다 놔" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: [] }],
+      objects: [{ id: "obj-1", isPicked: false, position: { x: 1.5, y: -1.85, z: 0 } }],
+    },
+  },
+  {
+    name: "korean chain picks and places next to an object",
+    steps: [{ command: "노란 상자 집고 초록색 옆에 놔" }],
+    expect: {
+      objects: [{ id: "obj-4", isPicked: false }],
+      robots: [{ id: "robot-1", holding: [] }],
+    },
+  },
+  {
+    name: "ambiguous placement reference asks which one",
+    steps: [
+      { command: "pick up the red box" },
+      { command: "put it next to the ball", expectQuestion: "Which ball — blue or purple?" },
+      { answer: "purple" },
+    ],
+    expect: { objects: [{ id: "obj-1", isPicked: false }], robots: [{ id: "robot-1", holding: [] }] },
+  },
+  {
+    name: "placing onto another object is refused",
+    steps: [
+      { command: "pick up the red box" },
+      { intent: { type: "drop", targetPosition: { x: -1.5, y: 0, z: 1 }, text: "drop it on the blue ball" }, expectRejected: true },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-1"] }] },
+  },
+];
@@ -0,0 +1,44 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import { createDefaultRobots, DEFAULT_POSE } from "../lib/defaultScene";
+import { POSE_JOINTS, checkPose, setJointAngle } from "../lib/poseConstraints";
+
+// Every axis three quarters of the way through its range (none of them 0)
+const THREE_QUARTERS = Object.fromEntries(
+  POSE_JOINTS.map(({ path, limits }) => [path, limits.min + (limits.max - limits.min) * 0.75])
+);
+
+// Joint paths and limits from poseConstraints.ts
+export const POSE_SCENARIOS: Scenario[] = [
+  {
+    name: "every joint in POSE_JOINTS can be set by its path and read back",
+    robots: [{
+      ...createDefaultRobots()[0],
+      pose: Object.entries(THREE_QUARTERS).reduce((pose, [path, angle]) => setJointAngle(pose, path, angle), DEFAULT_POSE),
+    }],
+    steps: [],
+    expect: { robots: [{ id: "robot-1", pose: THREE_QUARTERS }] },
+  },
+  {
+    name: "a joint set past its limit is clamped, unset parts fill in at 0",
+    robots: [{
+      ...createDefaultRobots()[0],
+      pose: checkPose(setJointAngle(setJointAngle(DEFAULT_POSE, "rightArm.wrist.twist", 40), "leftHand.fingers.flex", 150)).pose,
+    }],
+    steps: [],
+    expect: {
+      robots: [{
+        id: "robot-1",
+        pose: { "rightArm.wrist.twist": 40, "rightArm.wrist.flex": 0, "leftHand.fingers.flex": 90, "leftHand.thumb.flex": 0 },
+      }],
+    },
+  },
+  {
+    name: "relative joint turns add to the current angle up to the limit",
+    steps: [
+      { intent: { type: "delta", side: "left", joint: "knee", axis: "flex", delta: 100, text: "bend the left knee 100 more" } },
+      { intent: { type: "delta", side: "left", joint: "knee", axis: "flex", delta: 100, text: "bend the left knee 100 more" } },
+      { intent: { type: "delta", side: "right", joint: "shoulder", axis: "pitch", delta: -30, text: "right shoulder back 30" } },
+    ],
+    expect: { robots: [{ id: "robot-1", pose: { "leftLeg.knee.flex": 135, "rightArm.shoulder.pitch": -30 } }] },
+  },
+];
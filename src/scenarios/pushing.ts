@@ -0,0 +1,56 @@
+import type { Scenario } from "../lib/scenarioRunner";
+import type { PickableObject } from "../lib/types";
+import { createDefaultObjects } from "../lib/defaultScene";
+
+// 20 kg, well over the default 5 kg lift limit
+const crate: PickableObject = {
+  id: "crate", name: "wooden crate", type: "box", position: { x: 2, y: -1.7, z: 2 }, color: "#a16207", size: 0.6, mass: 20, isPicked: false,
+};
+
+const withCrate = () => [...createDefaultObjects(), { ...crate, position: { ...crate.position } }];
+
+// Objects too heavy to lift: picking is refused, pushing slides them along the ground
+export const PUSHING_SCENARIOS: Scenario[] = [
+  {
+    name: "picking an object over the lift limit is refused",
+    objects: withCrate(),
+    steps: [{ command: "pick up the crate", expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [], position: { x: 0, z: 0 } }], planSteps: [] },
+  },
+  {
+    name: "push an object to coordinates",
+    objects: withCrate(),
+    steps: [{ command: "push the crate to (2, 0, 3.5)" }],
+    expect: {
+      // The robot ends up behind the crate: 0.3 + 0.3 + 0.1 back from its centre
+      robots: [{ id: "robot-1", holding: [], position: { x: 2, z: 2.8 }, pose: { "rightArm.shoulder.pitch": 0 } }],
+      objects: [{ id: "crate", isPicked: false, position: { x: 2, y: -1.7, z: 3.5 } }],
+      planSteps: [6],
+    },
+  },
+  {
+    name: "push an object toward another one",
+    objects: withCrate(),
+    steps: [{ command: "나무 상자를 빨간 상자 쪽으로 밀어" }],
+    expect: {
+      objects: [{ id: "crate", position: { x: 1.621, z: 0.485 } }, { id: "obj-1", position: { x: 1.5, z: 0 } }],
+    },
+  },
+  {
+    name: "objects stacked on a pushed object ride along",
+    objects: withCrate(),
+    steps: [
+      { command: "stack the red box on the crate" },
+      { command: "push the crate to (2, 0, 3.5)" },
+    ],
+    expect: {
+      objects: [{ id: "obj-1", restingOn: "crate", position: { x: 2, y: -1.25, z: 3.5 } }],
+    },
+  },
+  {
+    name: "pushing into another object is refused",
+    objects: withCrate(),
+    steps: [{ command: "push the crate to (-3, 0, 0)", expectRejected: true }],
+    expect: { objects: [{ id: "crate", position: { x: 2, z: 2 } }], planSteps: [] },
+  },
+];
@@ -0,0 +1,68 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Stacking: resting heights come from the support's top, stacks come apart from the top
+export const STACKING_SCENARIOS: Scenario[] = [
+  {
+    name: "stack one object on another",
+    steps: [{ command: "stack the yellow cube on the red box" }],
+    expect: {
+      robots: [{ id: "robot-1", holding: [] }],
+      // Red box top at -2 + 0.3, plus half the cube's 0.25
+      objects: [{ id: "obj-4", isPicked: false, restingOn: "obj-1", position: { x: 1.5, y: -1.575, z: 0 } }],
+      planSteps: [13],
+    },
+  },
+  {
+    name: "put the held object on top of another",
+    steps: [
+      { command: "초록색 집어" },
+      { command: "빨간 상자 위에 놔" },
+    ],
+    expect: {
+      objects: [{ id: "obj-3", isPicked: false, restingOn: "obj-1", position: { x: 1.5, y: -1.55, z: 0 } }],
+      planSteps: [7, 6],
+    },
+  },
+  {
+    name: "picking the bottom of a stack is refused",
+    steps: [
+      { command: "stack the yellow cube on the red box" },
+      { command: "pick up the red box", expectRejected: true },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: [] }], objects: [{ id: "obj-1", isPicked: false }] },
+  },
+  {
+    name: "taking the top off frees the bottom",
+    steps: [
+      { command: "stack the yellow cube on the red box" },
+      { command: "pick up the yellow cube" },
+      { command: "drop" },
+      { command: "pick up the red box" },
+    ],
+    expect: {
+      robots: [{ id: "robot-1", holding: ["obj-1"] }],
+      objects: [{ id: "obj-4", isPicked: false, restingOn: null, position: { y: -1.875 } }],
+    },
+  },
+  {
+    name: "nothing can be stacked on a ball",
+    steps: [{ command: "stack the red box on the blue ball", expectRejected: true }],
+    expect: { robots: [{ id: "robot-1", holding: [] }], planSteps: [] },
+  },
+  {
+    name: "a support carries only one object",
+    steps: [
+      { command: "stack the yellow cube on the red box" },
+      { command: "stack the green cylinder on the red box", expectRejected: true },
+    ],
+    expect: { objects: [{ id: "obj-3", isPicked: false, restingOn: null }], planSteps: [13] },
+  },
+  {
+    name: "ambiguous stack target asks which one",
+    steps: [
+      { command: "stack the green cylinder on the box", expectQuestion: "Which box — red or yellow?" },
+      { answer: "yellow" },
+    ],
+    expect: { objects: [{ id: "obj-3", restingOn: "obj-4", position: { y: -1.6 } }] },
+  },
+];
@@ -0,0 +1,50 @@
+import type { Scenario } from "../lib/scenarioRunner";
+
+// Throwing: ballistic flight from the hand, landing written back to the scene
+export const THROWING_SCENARIOS: Scenario[] = [
+  {
+    name: "throw an object toward another one",
+    steps: [{ command: "throw the blue ball toward the green cylinder" }],
+    expect: {
+      robots: [{ id: "robot-1", holding: [], pose: { "rightArm.shoulder.pitch": 0 } }],
+      // Beside the cylinder on the thrower's side, 0.15 + 0.15 + 0.05 from its centre
+      objects: [{ id: "obj-2", isPicked: false, restingOn: null, position: { x: 0.297, y: -1.85, z: -1.515 } }],
+      planSteps: [11],
+    },
+  },
+  {
+    name: "throw the held object to coordinates",
+    steps: [
+      { command: "pick up the red box" },
+      { command: "throw it to (3, 0, 2)" },
+    ],
+    expect: {
+      objects: [{ id: "obj-1", isPicked: false, position: { x: 3, y: -1.85, z: 2 } }],
+      planSteps: [7, 4],
+    },
+  },
+  {
+    name: "a throw aimed at a box lands on top of it",
+    steps: [
+      { command: "pick up the yellow cube" },
+      { intent: { type: "throw", targetPosition: { x: 1.5, y: 0, z: 0 }, text: "throw it onto the red box" } },
+    ],
+    expect: { objects: [{ id: "obj-4", restingOn: "obj-1", position: { x: 1.5, y: -1.575, z: 0 } }] },
+  },
+  {
+    name: "a throw aimed at a ball glances off to the ground",
+    steps: [
+      { command: "pick up the yellow cube" },
+      { intent: { type: "throw", targetPosition: { x: -1.5, y: 0, z: 1 }, text: "throw it at the blue ball" } },
+    ],
+    expect: { objects: [{ id: "obj-4", restingOn: null, position: { y: -1.875 } }] },
+  },
+  {
+    name: "throwing out of range is rejected",
+    steps: [
+      { command: "pick up the red box" },
+      { command: "throw it to (10, 0, 0)", expectRejected: true },
+    ],
+    expect: { robots: [{ id: "robot-1", holding: ["obj-1"] }], planSteps: [7] },
+  },
+];